@@ -20,7 +20,7 @@ module.exports = {
     '^.+\\.(js|jsx)$': ['babel-jest', { presets: ['@babel/preset-env', '@babel/preset-react'] }]
   },
   transformIgnorePatterns: [
-    'node_modules/(?!(socket\\.io-client|@socket\\.io|sequelize|uuid)/)'
+    'node_modules/(?!(socket\\.io-client|@socket\\.io|sequelize|uuid|yaml)/)'
   ],
   moduleFileExtensions: ['ts', 'tsx', 'js', 'jsx', 'json', 'node'],
   testMatch: [
@@ -1,4 +1,6 @@
 import { jest, describe, test, expect, beforeAll, beforeEach, afterEach } from '@jest/globals';
+import { deserializeRuntime, finalize, initRuntime, runTick, serializeRuntime } from '../../src/lib/simulation/engine.ts';
+import { toAuctionResult, toDecision, toRoundResults } from '../engineAdapter.js';
 
 // Create ESM-compatible mocks and inject them before importing the module under test
 let GameService;
@@ -293,6 +295,33 @@ describe('GameService', () => {
         lastActiveAt: expect.any(Date)
       }));
     });
+
+    test('only accepts tools the session offers', async () => {
+      const mockTeam = { decisions: { price: 200 }, update: jest.fn().mockResolvedValue(true) };
+      Team.findOne.mockResolvedValue(mockTeam);
+      GameService.currentGameSession = {
+        settings: { currentPhase: 'simulation', tools: [{ id: 'flash_sale', cost: 50 }] }
+      };
+
+      await expect(GameService.updateTeamDecision('socket-1', { tool: 'spotlight' })).rejects.toThrow('Unknown tool: spotlight');
+      expect(mockTeam.update).not.toHaveBeenCalled();
+      await GameService.updateTeamDecision('socket-1', { tool: 'flash_sale' });
+      expect(mockTeam.decisions.tool).toBe('flash_sale');
+    });
+
+    test('only accepts prices for ancillaries the session sells', async () => {
+      const mockTeam = { decisions: { price: 200 }, update: jest.fn().mockResolvedValue(true) };
+      Team.findOne.mockResolvedValue(mockTeam);
+      GameService.currentGameSession = {
+        settings: { currentPhase: 'simulation', ancillaries: [{ id: 'bags', list_price: 50, unit_cost: 10, attach_rate: 0.5 }] }
+      };
+
+      await expect(GameService.updateTeamDecision('socket-1', { ancillary_prices: { bags: 60, meals: 12 } }))
+        .rejects.toThrow('Unknown ancillary: meals');
+      expect(mockTeam.update).not.toHaveBeenCalled();
+      await GameService.updateTeamDecision('socket-1', { ancillary_prices: { bags: 60 } });
+      expect(mockTeam.decisions.ancillary_prices).toEqual({ bags: 60 });
+    });
   });
 
   describe('getActiveTeams', () => {
@@ -652,6 +681,42 @@ describe('GameService', () => {
       expect(res.minimumBidPrice).toBe(90);
       expect(session.settings.fixSeatsAllocated).toBe(true);
     });
+
+    test('charges the shared clearing price under the uniform-price mechanism', async () => {
+      const session = {
+        id: 'sess-3',
+        currentRound: 0,
+        isActive: false,
+        settings: {
+          totalAircraftSeats: 100,
+          fixSeatMinBid: 80,
+          perTeamBudget: 10000,
+          auctionMechanism: 'uniform_price'
+        },
+        update: jest.fn(function (payload) {
+          if (payload && payload.settings) this.settings = payload.settings;
+          return Promise.resolve(this);
+        })
+      };
+      GameService.currentGameSession = session;
+
+      const t1 = { id: 't1', name: 'Alpha', decisions: { fixSeatsPurchased: 10, fixSeatBidPrice: 150 }, update: jest.fn().mockResolvedValue(true) };
+      const t2 = { id: 't2', name: 'Beta', decisions: { fixSeatsPurchased: 10, fixSeatBidPrice: 100 }, update: jest.fn().mockResolvedValue(true) };
+
+      Team.findAll.mockResolvedValue([t1, t2]);
+
+      const res = await GameService.allocateFixSeats();
+
+      // Two teams -> 16 % of 100 seats are auctioned; the 100 bid is the marginal one
+      const a1 = res.allocations.find(a => a.teamId === 't1');
+      const a2 = res.allocations.find(a => a.teamId === 't2');
+      expect(a1.allocated).toBe(10);
+      expect(a2.allocated).toBe(6);
+      expect(a1.clearingPrice).toBe(100);
+      expect(a2.clearingPrice).toBe(100);
+      expect(res.auctionMechanism).toBe('uniform_price');
+      expect(res.marketClearingPrice).toBe(100);
+    });
   });
 
   describe('endPhase', () => {
@@ -787,5 +852,310 @@ describe('GameService', () => {
       await GameService.endRound(() => []);
       expect(RoundResult.create).toHaveBeenCalledWith(expect.objectContaining({ teamId, insolvent: true }));
     });
+
+    test('runs live ticks and round results through the shared engine', async () => {
+      const session = {
+        id: 'sess-5',
+        currentRound: 1,
+        isActive: false,
+        settings: {
+          totalAircraftSeats: 120,
+          fixSeatPrice: 60,
+          perTeamBudget: 20000,
+          simRngSeed: 7,
+          poolingMarket: { currentPrice: 130, priceHistory: [] }
+        },
+        update: jest.fn(function (payload) {
+          if (payload && payload.settings) this.settings = payload.settings;
+          return Promise.resolve(this);
+        })
+      };
+      GameService.currentGameSession = session;
+      const teams = [
+        { id: 'tA', name: 'Alpha', decisions: { price: 140, fixSeatsAllocated: 10, fixSeatClearingPrice: 70 }, update: jest.fn().mockResolvedValue(true) },
+        { id: 'tB', name: 'Beta', decisions: { price: 180, push_level: 1, fixSeatsAllocated: 5 }, update: jest.fn().mockResolvedValue(true) }
+      ];
+      Team.findAll.mockResolvedValue(teams);
+
+      await GameService.startSimulationPhase();
+      const { engineConfig } = session.settings;
+      expect(engineConfig.ticks_total).toBe(365);
+      expect(engineConfig.market.D_base.reduce((sum, value) => sum + value, 0)).toBeCloseTo(120);
+      expect(session.settings.poolingMarket.availablePoolingCapacity).toBe(105);
+
+      for (let i = 0; i < 40; i++) await GameService.updatePoolingMarket();
+
+      // Replaying the same decisions on the engine directly gives the identical runtime
+      const runtime = initRuntime(engineConfig, toAuctionResult(teams, session.settings));
+      for (let i = 0; i < 40; i++) {
+        runTick(engineConfig, runtime, teams.map((team) => toDecision(team)));
+      }
+      expect(session.settings.engineRuntime).toEqual(serializeRuntime(runtime));
+      expect(session.settings.simulatedDaysUntilDeparture).toBe(325);
+      expect(runtime.team.tA.sales_fix).toBeGreaterThan(0);
+      expect(session.settings.simState.perTeam.tA).toMatchObject({
+        sold: runtime.team.tA.sales_fix + runtime.team.tA.sales_pool,
+        fixRemaining: runtime.team.tA.fixed_left,
+        revenue: runtime.team.tA.revenue
+      });
+
+      RoundResult.create.mockResolvedValue({ id: 'rr2' });
+      const legacy = jest.fn(() => []);
+      const { results } = await GameService.endRound(legacy);
+      const reports = finalize(engineConfig, runtime);
+      expect(legacy).not.toHaveBeenCalled();
+      expect(results.map((result) => [result.teamId, result.profit, result.winner]))
+        .toEqual(reports.map((report) => [report.teamId, Math.round(report.profit), report.winner]));
+      // Live profit is what the team earned in cash on top of its budget
+      expect(results.map((result) => result.profit))
+        .toEqual(teams.map((team) => Math.round(runtime.team[team.id].cash - 20000)));
+      // Teams that left are out of the standings: the winner is decided among those still playing
+      expect(toRoundResults(engineConfig, runtime, [teams[1]])).toEqual([expect.objectContaining({ teamId: 'tB', winner: true })]);
+    });
+
+    test('replays timestamped reprices inside the tick they were made in', async () => {
+      const session = {
+        id: 'sess-6',
+        currentRound: 1,
+        isActive: false,
+        settings: { totalAircraftSeats: 120, simRngSeed: 3, poolingMarket: { currentPrice: 130, priceHistory: [] } },
+        update: jest.fn(function (payload) {
+          if (payload && payload.settings) this.settings = payload.settings;
+          return Promise.resolve(this);
+        })
+      };
+      GameService.currentGameSession = session;
+      const team = { id: 'tA', name: 'Alpha', decisions: { price: 200 }, update: jest.fn().mockResolvedValue(true) };
+      Team.findAll.mockResolvedValue([team]);
+      await GameService.startSimulationPhase();
+      expect(session.settings.engineConfig.market.arrivals).toBe('continuous');
+
+      // The team undercut halfway between two updates
+      const now = Date.now();
+      session.settings.poolingMarket.lastUpdate = new Date(now - 2000).toISOString();
+      team.decisions = { price: 185, price_changes: [{ at: new Date(now - 1000).toISOString(), price: 185 }] };
+      await GameService.updatePoolingMarket();
+
+      const runtime = deserializeRuntime(session.settings.engineRuntime);
+      expect(runtime.team.tA.price_history).toEqual([200]);
+      expect(runtime.team.tA.last_price).toBe(185);
+      expect(runtime.sold_history.every((sale) => [185, 200].includes(sale.price))).toBe(true);
+      expect(team.decisions.price_changes).toEqual([]);
+    });
+
+    test('skips a stored tool the session no longer offers', async () => {
+      const session = {
+        id: 'sess-10',
+        currentRound: 1,
+        isActive: false,
+        settings: { totalAircraftSeats: 120, simRngSeed: 6, poolingMarket: { currentPrice: 130, priceHistory: [] } },
+        update: jest.fn(function (payload) {
+          if (payload && payload.settings) this.settings = payload.settings;
+          return Promise.resolve(this);
+        })
+      };
+      GameService.currentGameSession = session;
+      const team = { id: 'tA', name: 'Alpha', decisions: { price: 200, tool: 'spotlight' }, update: jest.fn().mockResolvedValue(true) };
+      Team.findAll.mockResolvedValue([team]);
+      await GameService.startSimulationPhase();
+      // The admin replaced the tool registry after the team picked its tool
+      session.settings.engineConfig = { ...session.settings.engineConfig, tools: [{ id: 'flash_sale', cost: 50 }] };
+
+      await GameService.updatePoolingMarket();
+      await GameService.updatePoolingMarket();
+
+      const runtime = deserializeRuntime(session.settings.engineRuntime);
+      expect(session.settings.simulatedDaysUntilDeparture).toBeLessThan(session.settings.engineConfig.ticks_total);
+      expect(runtime.team.tA.cost).toBe(0);
+      expect(runtime.team.tA.active_tools).toEqual([]);
+    });
+
+    test('drops stored prices for ancillaries the session stopped selling', async () => {
+      const bags = { id: 'bags', list_price: 50, unit_cost: 10, attach_rate: 0.5 };
+      const session = {
+        id: 'sess-11',
+        currentRound: 1,
+        isActive: false,
+        settings: { totalAircraftSeats: 120, simRngSeed: 6, ancillaries: [bags], poolingMarket: { currentPrice: 130, priceHistory: [] } },
+        update: jest.fn(function (payload) {
+          if (payload && payload.settings) this.settings = payload.settings;
+          return Promise.resolve(this);
+        })
+      };
+      GameService.currentGameSession = session;
+      const team = { id: 'tA', name: 'Alpha', decisions: { price: 120, ancillary_prices: { bags: 60, meals: 12 } }, update: jest.fn().mockResolvedValue(true) };
+      Team.findAll.mockResolvedValue([team]);
+      await GameService.startSimulationPhase();
+      expect(session.settings.engineConfig.ancillaries).toEqual([bags]);
+
+      for (let i = 0; i < 20; i++) await GameService.updatePoolingMarket();
+
+      const runtime = deserializeRuntime(session.settings.engineRuntime);
+      expect(runtime.team.tA.sales_fix + runtime.team.tA.sales_pool).toBeGreaterThan(0);
+      expect(runtime.team.tA.ancillary_revenue).toBeGreaterThan(0);
+    });
+
+    test('keeps pricing a team that left with its autopilot rules', async () => {
+      const session = {
+        id: 'sess-7',
+        currentRound: 1,
+        isActive: false,
+        settings: { totalAircraftSeats: 120, simRngSeed: 5, poolingMarket: { currentPrice: 130, priceHistory: [] } },
+        update: jest.fn(function (payload) {
+          if (payload && payload.settings) this.settings = payload.settings;
+          return Promise.resolve(this);
+        })
+      };
+      GameService.currentGameSession = session;
+      GameService.sessionCache.set(session.id, session);
+      const teams = [
+        { id: 'tA', name: 'Alpha', gameSessionId: session.id, decisions: { price: 200 }, update: jest.fn().mockResolvedValue(true) },
+        { id: 'tB', name: 'Beta', gameSessionId: session.id, decisions: { price: 210 }, update: jest.fn().mockResolvedValue(true) }
+      ];
+      Team.findAll.mockResolvedValue(teams);
+      await GameService.startSimulationPhase();
+
+      Team.findOne.mockResolvedValue(teams[1]);
+      // Switching off before any rules were stored is fine
+      expect((await GameService.setAutopilot('sock-b', { enabled: false })).autopilot).toMatchObject({ enabled: false, rules: [] });
+      await expect(GameService.setAutopilot('sock-b', { rules: [{ then: { set_price: 'competitor' } }] }))
+        .rejects.toThrow('Autopilot rules[0].then.set_price: unknown variable "competitor"');
+      const { autopilot } = await GameService.setAutopilot('sock-b', {
+        rules: [
+          { then: { set_price: 205 } },
+          { then: { set_price: { sub: ['cheapest_competitor', 2] }, min_price: 'avg_fixed_cost' } }
+        ]
+      });
+      expect(autopilot.enabled).toBe(true);
+      expect(GameService.sanitizeSessionForClient(session).settings.autopilots).toBeUndefined();
+
+      // Beta drops out; its rules open at 205 and then undercut Alpha's board price by 2
+      Team.findAll.mockResolvedValue([teams[0]]);
+      await GameService.updatePoolingMarket();
+      await GameService.updatePoolingMarket();
+
+      const runtime = deserializeRuntime(session.settings.engineRuntime);
+      expect(runtime.team.tB.price_history).toEqual([205, 198]);
+      expect(session.settings.engineSnapshot.price_board).toEqual(expect.arrayContaining([{ teamId: 'tB', price: 198 }]));
+    });
+  });
+  describe('seat market', () => {
+    test('matches a bid against a resting ask and moves fixed seats between teams', async () => {
+      const session = {
+        id: 'sess-3',
+        settings: {
+          currentPhase: 'simulation',
+          simulatedDaysUntilDeparture: 29,
+          seatBook: { orders: [{ id: 'S1', teamId: 't-seller', side: 'ask', quantity: 4, price: 80, tick: 30 }], next_id: 2 },
+          seatTrades: [],
+          simState: {
+            returnedDemandRemaining: 0,
+            perTeam: {
+              't-seller': { fixRemaining: 10, avgFixedCost: 60, cost: 600 },
+              't-buyer': { fixRemaining: 0, avgFixedCost: 0, cost: 0 }
+            }
+          }
+        },
+        update: jest.fn(function (payload) {
+          if (payload && payload.settings) this.settings = payload.settings;
+          return Promise.resolve(this);
+        })
+      };
+      GameService.sessionCache.set(session.id, session);
+      Team.findOne.mockResolvedValue({ id: 't-buyer', gameSessionId: session.id });
+
+      const result = await GameService.placeSeatOrder('sock-b', { side: 'bid', quantity: 3, price: 90 });
+
+      expect(result.trades).toEqual([{ tick: 29, buyer: 't-buyer', seller: 't-seller', quantity: 3, price: 80 }]);
+      expect(result.book).toEqual({ bids: [], asks: [{ price: 80, quantity: 1 }] });
+      const perTeam = session.settings.simState.perTeam;
+      expect(perTeam['t-buyer']).toMatchObject({ fixRemaining: 3, avgFixedCost: 80, cost: 240 });
+      expect(perTeam['t-seller']).toMatchObject({ fixRemaining: 7, avgFixedCost: 60, cost: 360 });
+      expect(session.settings.seatTrades).toHaveLength(1);
+    });
+
+    test('rejects orders outside the simulation phase', async () => {
+      const session = { id: 'sess-4', settings: { currentPhase: 'prePurchase' }, update: jest.fn() };
+      GameService.sessionCache.set(session.id, session);
+      Team.findOne.mockResolvedValue({ id: 't1', gameSessionId: session.id });
+
+      await expect(GameService.placeSeatOrder('sock-1', { side: 'ask', quantity: 1, price: 50 }))
+        .rejects.toThrow('Seat trading is only open during the simulation phase');
+    });
+
+    test('only fills live bids the buyer can pay for under the team budget', async () => {
+      const session = {
+        id: 'sess-8',
+        currentRound: 1,
+        isActive: false,
+        settings: { totalAircraftSeats: 120, fixSeatPrice: 60, perTeamBudget: 1000, simRngSeed: 2, poolingMarket: { currentPrice: 130, priceHistory: [] } },
+        update: jest.fn(function (payload) {
+          if (payload && payload.settings) this.settings = payload.settings;
+          return Promise.resolve(this);
+        })
+      };
+      GameService.currentGameSession = session;
+      GameService.sessionCache.set(session.id, session);
+      const teams = [
+        { id: 'tA', name: 'Alpha', gameSessionId: session.id, decisions: { price: 200, fixSeatsAllocated: 10, fixSeatClearingPrice: 60 }, update: jest.fn().mockResolvedValue(true) },
+        { id: 'tB', name: 'Beta', gameSessionId: session.id, decisions: { price: 200 }, update: jest.fn().mockResolvedValue(true) }
+      ];
+      Team.findAll.mockResolvedValue(teams);
+      await GameService.startSimulationPhase();
+      session.settings.currentPhase = 'simulation';
+
+      Team.findOne.mockResolvedValue(teams[0]);
+      await GameService.placeSeatOrder('sock-a', { side: 'ask', quantity: 10, price: 300 });
+      Team.findOne.mockResolvedValue(teams[1]);
+      const { trades } = await GameService.placeSeatOrder('sock-b', { side: 'bid', quantity: 10, price: 300 });
+
+      // Beta's 1000 of cash pays for three seats at 300
+      expect(trades).toEqual([expect.objectContaining({ buyer: 'tB', seller: 'tA', quantity: 3, price: 300 })]);
+      expect(deserializeRuntime(session.settings.engineRuntime).team.tB.cash).toBe(100);
+    });
+
+    test('keeps a seat trade made while a live tick is being written', async () => {
+      const session = {
+        id: 'sess-9',
+        currentRound: 1,
+        isActive: false,
+        settings: { totalAircraftSeats: 120, fixSeatPrice: 60, simRngSeed: 4, poolingMarket: { currentPrice: 130, priceHistory: [] } },
+        update: jest.fn(function (payload) {
+          if (payload && payload.settings) this.settings = payload.settings;
+          return Promise.resolve(this);
+        })
+      };
+      GameService.currentGameSession = session;
+      GameService.sessionCache.set(session.id, session);
+      const teams = [
+        { id: 'tA', name: 'Alpha', gameSessionId: session.id, decisions: { price: 200, fixSeatsAllocated: 10, fixSeatClearingPrice: 60 }, update: jest.fn().mockResolvedValue(true) },
+        { id: 'tB', name: 'Beta', gameSessionId: session.id, decisions: { price: 200 }, update: jest.fn().mockResolvedValue(true) }
+      ];
+      Team.findAll.mockResolvedValue(teams);
+      await GameService.startSimulationPhase();
+      session.settings.currentPhase = 'simulation';
+      Team.findOne.mockResolvedValue(teams[0]);
+      await GameService.placeSeatOrder('sock-a', { side: 'ask', quantity: 4, price: 70 });
+
+      // The tick stalls on saving Alpha's replayed reprice while Beta's bid comes in
+      teams[0].decisions = { ...teams[0].decisions, price_changes: [{ at: new Date(Date.now() - 1000).toISOString(), price: 195 }] };
+      let stalled;
+      const saving = new Promise((resolve) => { stalled = resolve; });
+      teams[0].update = jest.fn(() => {
+        stalled();
+        return new Promise((resolve) => setTimeout(resolve, 20));
+      });
+      const ticking = GameService.updatePoolingMarket(session.id);
+      await saving;
+      Team.findOne.mockResolvedValue(teams[1]);
+      const placing = GameService.placeSeatOrder('sock-b', { side: 'bid', quantity: 4, price: 70 });
+      await ticking;
+      const { trades } = await placing;
+
+      expect(trades).toEqual([expect.objectContaining({ buyer: 'tB', seller: 'tA', quantity: 4 })]);
+      expect(session.settings.seatTrades).toHaveLength(1);
+      expect(session.settings.simState.perTeam.tB.fixRemaining).toBe(4);
+      expect(deserializeRuntime(session.settings.engineRuntime).team.tB.fixed_left).toBe(4);
+    });
   });
 });
@@ -0,0 +1,312 @@
+// Adapters between the live game (GameSession.settings, Team.decisions) and the shared
+// simulation engine, so live rounds follow the same rules as practice mode.
+import fs from 'fs';
+import path from 'path';
+import yaml from 'yaml';
+import { autopilotDecision } from '../src/lib/simulation/autopilot.ts';
+import { deserializeRuntime, finalize, initRuntime, runTick, serializeRuntime, spillTotal } from '../src/lib/simulation/engine.ts';
+import { buildStrategyView, strategyRng } from '../src/lib/simulation/strategies.ts';
+import { findTool, resolveTools } from '../src/lib/simulation/tools.ts';
+
+// The server runs from the repository root or from server/; the shared config sits at the root
+const configPath = ['apxo.config.yaml', '../apxo.config.yaml']
+  .map((file) => path.resolve(process.cwd(), file))
+  .find((file) => fs.existsSync(file));
+if (!configPath) {
+  throw new Error('apxo.config.yaml not found');
+}
+const baseConfig = yaml.parse(fs.readFileSync(configPath, 'utf8'));
+
+// Same bounds updateTeamDecision enforces on retail prices
+export const LIVE_PRICE_FLOOR = 50;
+export const LIVE_PRICE_CEIL = 500;
+const DEFAULT_LIVE_PRICE = 500;
+const DEFAULT_FIX_SEAT_PRICE = 60;
+
+const clamp = (value, lo, hi) => Math.max(lo, Math.min(hi, value));
+const numberOr = (value, fallback) => (
+  value !== null && value !== undefined && value !== '' && Number.isFinite(Number(value)) ? Number(value) : fallback
+);
+
+// Spreads a per-period booking curve (e.g. 12 months) over `ticks` so it adds up to `seats`.
+export function spreadDemandCurve(curve, seats, ticks) {
+  const points = (Array.isArray(curve) ? curve : []).map((point) => Math.max(0, Number(point) || 0));
+  const total = points.reduce((sum, point) => sum + point, 0);
+  if (points.length === 0 || total <= 0) {
+    return Array(ticks).fill(seats / ticks);
+  }
+  const scale = seats / total;
+  const periodOf = (tick) => Math.floor((tick * points.length) / ticks);
+  if (ticks < points.length) {
+    const merged = Array(ticks).fill(0);
+    points.forEach((point, period) => {
+      merged[Math.floor((period * ticks) / points.length)] += point * scale;
+    });
+    return merged;
+  }
+  const ticksPerPeriod = points.map(() => 0);
+  for (let tick = 0; tick < ticks; tick += 1) ticksPerPeriod[periodOf(tick)] += 1;
+  return Array.from({ length: ticks }, (_, tick) => {
+    const period = periodOf(tick);
+    return (points[period] * scale) / ticksPerPeriod[period];
+  });
+}
+
+export function buildEngineConfig(settings = {}, teams = [], ticks = baseConfig.ticks_total) {
+  const ticksTotal = Math.max(1, Math.floor(ticks));
+  const seats = Math.max(1, Math.round(numberOr(settings.totalAircraftSeats, baseConfig.airline.C_total)));
+  const P_min = Math.max(1, numberOr(settings.airlinePriceMin, baseConfig.airline.P_min));
+  const P_max = Math.max(P_min + 1, numberOr(settings.airlinePriceMax, baseConfig.airline.P_max));
+  const startPrice = numberOr(settings.poolingMarket?.currentPrice, numberOr(settings.poolingCost, baseConfig.airline.P_airline_start));
+  const curve = Array.isArray(settings.demandCurve) && settings.demandCurve.length > 0
+    ? settings.demandCurve
+    : baseConfig.market.D_base;
+  const budget = numberOr(settings.perTeamBudget, 0);
+  // Push is charged every tick, so its price is scaled to cost the same per round as in practice
+  const tickScale = baseConfig.ticks_total / ticksTotal;
+
+  const config = {
+    ...baseConfig,
+    ticks_total: ticksTotal,
+    seconds_per_tick: numberOr(settings.secondsPerTick, baseConfig.seconds_per_tick),
+    rng_seed: numberOr(settings.simRngSeed, baseConfig.rng_seed) >>> 0,
+    auction: {
+      mechanism: settings.auctionMechanism || baseConfig.auction?.mechanism || 'pay_as_bid',
+      reserve_price: numberOr(settings.fixSeatMinBid, baseConfig.auction?.reserve_price ?? 0),
+    },
+    airline: {
+      ...baseConfig.airline,
+      C_total: seats,
+      P_airline_start: clamp(startPrice, P_min, P_max),
+      P_min,
+      P_max,
+      gamma: numberOr(settings.airlinePriceGamma, baseConfig.airline.gamma),
+      kappa: numberOr(settings.airlinePriceKappa, baseConfig.airline.kappa),
+    },
+    market: {
+      ...baseConfig.market,
+      D_base: spreadDemandCurve(curve, seats, ticksTotal),
+      alpha: numberOr(settings.priceAlpha, baseConfig.market.alpha),
+      beta: numberOr(settings.priceBeta, baseConfig.market.beta),
+      P_ref: numberOr(settings.referencePrice, baseConfig.market.P_ref),
+      price_priority_boost: numberOr(settings.pricePriorityBoost, baseConfig.market.price_priority_boost),
+      // Live reprices land between customers; multinomial allocation has no arrival order to replay
+      arrivals: (baseConfig.market.allocation ?? 'per_customer') === 'per_customer' ? 'continuous' : 'batch',
+    },
+    teams: teams.map((team) => ({
+      id: team.id,
+      P_start: clamp(numberOr(team.decisions?.price, DEFAULT_LIVE_PRICE), LIVE_PRICE_FLOOR, LIVE_PRICE_CEIL),
+      P_floor: LIVE_PRICE_FLOOR,
+      P_ceil: LIVE_PRICE_CEIL,
+    })),
+    rules: {
+      ...baseConfig.rules,
+      push_cost_per_level: baseConfig.rules.push_cost_per_level.map((cost) => Math.round(cost * tickScale)),
+    },
+  };
+  // Daily ticks expect fractions of a customer; rounding would drop them, Poisson draws keep the total
+  if (ticksTotal > baseConfig.ticks_total && (config.market.demand_noise?.mode ?? 'none') === 'none') {
+    config.market.demand_noise = { mode: 'poisson' };
+  }
+  if (settings.tools) config.tools = settings.tools;
+  if (settings.ancillaries) config.ancillaries = settings.ancillaries;
+  if (settings.scoring) config.scoring = settings.scoring;
+  if (budget > 0) config.budget = { starting_cash: budget };
+  return config;
+}
+
+// Fixed seats were already cleared by allocateFixSeats; this replays its outcome for initRuntime.
+export function toAuctionResult(teams = [], settings = {}) {
+  const fallbackPrice = numberOr(settings.fixSeatPrice, DEFAULT_FIX_SEAT_PRICE);
+  const allocations = teams.map((team) => {
+    const awarded = Math.max(0, Math.floor(numberOr(team.decisions?.fixSeatsAllocated, 0)));
+    const clearing = numberOr(team.decisions?.fixSeatClearingPrice, 0);
+    const price = clearing > 0 ? clearing : fallbackPrice;
+    return {
+      teamId: team.id,
+      awarded_fixed: awarded,
+      avg_fixed_cost: awarded > 0 ? price : 0,
+      fixed_costs_total: awarded * price,
+    };
+  });
+  const awarded = allocations.filter((allocation) => allocation.awarded_fixed > 0);
+  return {
+    allocations,
+    airline_capacity_used: awarded.reduce((sum, allocation) => sum + allocation.awarded_fixed, 0),
+    mechanism: settings.auctionMechanism || 'pay_as_bid',
+    clearing_price: awarded.length > 0 ? Math.min(...awarded.map((allocation) => allocation.avg_fixed_cost)) : 0,
+    marginal_bids: Object.fromEntries(allocations.map((allocation) => [allocation.teamId, allocation.avg_fixed_cost])),
+  };
+}
+
+export function toDecision(team, { withTool = true } = {}) {
+  const decisions = team.decisions || {};
+  const pushLevel = Number(decisions.push_level);
+  const tool = typeof decisions.tool === 'string' ? decisions.tool : 'none';
+  return {
+    teamId: team.id,
+    price: clamp(numberOr(decisions.price, DEFAULT_LIVE_PRICE), LIVE_PRICE_FLOOR, LIVE_PRICE_CEIL),
+    push_level: [0, 1, 2].includes(pushLevel) ? pushLevel : 0,
+    fix_hold_pct: clamp(numberOr(decisions.fix_hold_pct, 0), 0, 100),
+    tool: withTool ? tool : 'none',
+    ...(decisions.ancillary_prices ? { ancillary_prices: decisions.ancillary_prices } : {}),
+  };
+}
+
+export function startEngineRun(settings, teams, ticks) {
+  const config = buildEngineConfig(settings, teams, ticks);
+  const runtime = initRuntime(config, toAuctionResult(teams, settings));
+  return { config, runtime };
+}
+
+export function restoreEngineRun(settings) {
+  if (!settings?.engineConfig || !settings?.engineRuntime) return null;
+  return { config: settings.engineConfig, runtime: deserializeRuntime(settings.engineRuntime) };
+}
+
+// Tools a live session offers: settings.tools when the admin set them, else those of apxo.config.yaml.
+export function sessionTools(settings = {}) {
+  return resolveTools({ tools: settings.tools ?? baseConfig.tools });
+}
+
+// Ancillaries a live session sells: settings.ancillaries when the admin set them, else those of apxo.config.yaml.
+export function sessionAncillaries(settings = {}) {
+  return settings.ancillaries ?? baseConfig.ancillaries ?? [];
+}
+
+// Rules of the teams that switched their autopilot on (settings.autopilots, see GameService.setAutopilot).
+export function autopilotPrograms(settings = {}) {
+  return Object.fromEntries(Object.entries(settings.autopilots || {})
+    .filter(([, autopilot]) => autopilot?.enabled && Array.isArray(autopilot.rules))
+    .map(([teamId, autopilot]) => [teamId, autopilot.rules]));
+}
+
+// Wall-clock times (ms) of a team's live reprices, see GameService.updateTeamDecision.
+function timedPriceChanges(team) {
+  const changes = Array.isArray(team.decisions?.price_changes) ? team.decisions.price_changes : [];
+  return changes
+    .map((change) => ({ time: Date.parse(change.at), price: Number(change.price) }))
+    .filter((change) => Number.isFinite(change.time) && Number.isFinite(change.price));
+}
+
+// Runs up to `ticks` engine ticks with the teams' current decisions. Teams that left keep
+// selling at their last price; tools fire on the first tick only (one activation per choice).
+// With a wall-clock `window` ({ start, end } in ms) the ticks split it evenly and reprices made
+// in [start, end) take effect at their moment within the matching tick.
+// `autopilot` ({ programs, snapshot }) hands teams with rules, present or not, to their rules,
+// which read the previous tick's snapshot; `snapshot` is updated after every tick.
+export function advanceEngine(config, runtime, teams, ticks = 1, window = null, autopilot = null) {
+  const programs = autopilot?.programs ?? {};
+  const active = new Map(teams.map((team) => [team.id, team]));
+  const span = window && window.end > window.start ? (window.end - window.start) / ticks : 0;
+  const repriced = new Map();
+  for (const team of span > 0 ? teams : []) {
+    const changes = timedPriceChanges(team)
+      .filter((change) => change.time >= window.start && change.time < window.end)
+      .map((change) => {
+        const position = (change.time - window.start) / span;
+        const tick = Math.floor(position);
+        return { tick, at: (position - tick) * config.seconds_per_tick, price: change.price };
+      });
+    if (changes.length > 0) repriced.set(team.id, changes);
+  }
+  const days = [];
+  while (days.length < ticks && runtime.tick > 0) {
+    const decisions = Object.values(runtime.team).map((state) => {
+      const program = programs[state.teamId];
+      if (program) {
+        const view = buildStrategyView(config, runtime, state.teamId, autopilot.snapshot ?? null, strategyRng(config, state.teamId));
+        return autopilotDecision(program, view);
+      }
+      const team = active.get(state.teamId);
+      if (!team) return { teamId: state.teamId, price: state.last_price, push_level: 0, fix_hold_pct: 0 };
+      const decision = toDecision(team, { withTool: days.length === 0 });
+      // A stored tool the session no longer offers is skipped; updateTeamDecision rejects new ones
+      if (!findTool(config, decision.tool)) decision.tool = 'none';
+      if (!repriced.has(team.id)) return decision;
+      const changes = repriced.get(team.id).filter((change) => change.tick === days.length);
+      // The tick opens at the price the engine closed the last one on, unless a reprice landed right on its start
+      const opening = changes.filter((change) => change.at === 0).pop();
+      return {
+        ...decision,
+        price: opening ? opening.price : state.last_price,
+        price_changes: changes.filter((change) => change.at > 0).map(({ at, price }) => ({ at, price })),
+      };
+    });
+    if (decisions.length === 0) break;
+    const { snapshot, results } = runTick(config, runtime, decisions);
+    if (autopilot) autopilot.snapshot = snapshot;
+    days.push(results);
+  }
+  return days;
+}
+
+// Mirror of the runtime in the shape clients read from settings.simState.perTeam.
+export function toPerTeamState(runtime, previous = {}) {
+  const perTeam = {};
+  for (const state of Object.values(runtime.team)) {
+    const prior = previous[state.teamId] || {};
+    const sold = state.sales_fix + state.sales_pool;
+    const turnedAway = spillTotal(state.spill);
+    perTeam[state.teamId] = {
+      ...prior,
+      fixRemaining: state.fixed_left,
+      poolRemaining: runtime.C_remain,
+      sold,
+      fixSold: state.sales_fix,
+      poolUsed: state.sales_pool,
+      demand: sold + turnedAway,
+      initialFix: prior.initialFix ?? state.fixed_left,
+      initialPool: state.sales_pool,
+      revenue: state.revenue,
+      cost: state.cost,
+      avgFixedCost: state.avg_fixed_cost,
+      cash: state.cash,
+      insolvent: state.insolvent,
+    };
+  }
+  return perTeam;
+}
+
+// Carries live seat-market trades into the engine runtime; `inventory` holds the matched fixed seats.
+export function settleSeatTrades(snapshot, trades, inventory) {
+  const runtime = deserializeRuntime(snapshot);
+  for (const trade of trades) {
+    const buyer = runtime.team[trade.buyer];
+    const seller = runtime.team[trade.seller];
+    if (!buyer || !seller) continue;
+    const amount = trade.quantity * trade.price;
+    buyer.cost += amount;
+    buyer.cash -= amount;
+    seller.cost -= amount;
+    seller.cash += amount;
+    for (const teamId of [trade.buyer, trade.seller]) {
+      runtime.team[teamId].fixed_left = inventory[teamId].fixed_left;
+      runtime.team[teamId].avg_fixed_cost = inventory[teamId].avg_fixed_cost;
+    }
+  }
+  return serializeRuntime(runtime);
+}
+
+// Round results (RoundResult rows plus score/winner) from finalize.
+export function toRoundResults(config, runtime, teams) {
+  const reports = finalize(config, runtime, teams.map((team) => team.id));
+  const totalSold = reports.reduce((sum, report) => sum + report.sold_total, 0) || 1;
+  return reports.map((report) => ({
+    teamId: report.teamId,
+    sold: report.sold_total,
+    revenue: Math.round(report.total_revenue),
+    cost: Math.round(report.total_cost),
+    profit: Math.round(report.profit),
+    unsold: report.spill_total,
+    marketShare: Math.round((report.sold_total / totalSold) * 100) / 100,
+    demand: report.sold_total + report.spill_total,
+    avgPrice: Math.round(report.avg_sell_price || runtime.team[report.teamId].price),
+    capacity: report.sold_total + report.spoiled_fixed,
+    insolvent: report.insolvent,
+    eligible: report.eligible,
+    score: report.score,
+    score_breakdown: report.score_breakdown,
+    winner: report.winner,
+  }));
+}
@@ -1,5 +1,10 @@
 import { Team as BaseTeam, GameSession as BaseGameSession, RoundResult as BaseRoundResult, HighScore as BaseHighScore } from './models.js';
 import { Op } from 'sequelize';
+import { clearAuction } from '../src/lib/simulation/auction.ts';
+import { bookDepth, cancelSeatOrders, createOrderBook, matchSeatOrders, postSeatOrder } from '../src/lib/simulation/orderBook.ts';
+import { serializeRuntime, spendableCash } from '../src/lib/simulation/engine.ts';
+import { parseAutopilot } from '../src/lib/simulation/autopilot.ts';
+import { advanceEngine, autopilotPrograms, restoreEngineRun, sessionAncillaries, sessionTools, settleSeatTrades, startEngineRun, toPerTeamState, toRoundResults } from './engineAdapter.js';
 
 let TeamModel = BaseTeam;
 let GameSessionModel = BaseGameSession;
@@ -15,9 +20,10 @@ export const __setModelsForTesting = ({ Team, GameSession, RoundResult, HighScor
 
 const SIMULATION_DEFAULT_DAYS = 365;
 const SIMULATION_SECONDS_PER_DAY = 1;
+// Timestamped reprices kept between two pooling-market updates
+const MAX_PRICE_CHANGES = 50;
 
 const AGENT_BASE_CAPACITY = 180;
-const MIN_PROFIT_LIMIT = -20000;
 
 const FIX_SHARE_PER_TEAM = 0.08;
 const clampShareValue = (value) => {
@@ -106,6 +112,7 @@ const buildSettingsWithShare = (settings = {}, share, options = {}) => {
 export class GameService {
   static currentGameSession = null;
   static sessionCache = new Map();
+  static settingsQueues = new Map();
   static slugMigrationPromise = null;
   static slugSchemaEnsured = false;
   static slugLookupEnabled = true;
@@ -130,6 +137,20 @@ export class GameService {
     return session;
   }
 
+  // Runs `task` once every settings write queued earlier for the session has finished, so
+  // read-modify-write updates made while the market runs never write back a stale copy.
+  static async queueSettingsWrite(sessionId, task) {
+    const previous = this.settingsQueues.get(sessionId) || Promise.resolve();
+    const run = previous.then(task);
+    const done = run.catch(() => {});
+    this.settingsQueues.set(sessionId, done);
+    try {
+      return await run;
+    } finally {
+      if (this.settingsQueues.get(sessionId) === done) this.settingsQueues.delete(sessionId);
+    }
+  }
+
   static async ensureSessionSlugSupport() {
     if (this.slugSchemaEnsured) return;
     if (this.slugMigrationPromise) return this.slugMigrationPromise;
@@ -432,6 +453,7 @@ export class GameService {
       poolingReserveCapacity,
       fixSeatPrice: 60,
       fixSeatMinBid: AGENT_V1_DEFAULTS.airline.minPrice,
+      auctionMechanism: 'pay_as_bid',
       airlinePriceMin: AGENT_V1_DEFAULTS.airline.minPrice,
       airlinePriceMax: AGENT_V1_DEFAULTS.airline.maxPrice,
       poolingCost: 90,
@@ -863,6 +885,11 @@ export class GameService {
       // Clamp retail price to sensible bounds
       const p = Math.round(decision.price);
       next.price = Math.max(50, Math.min(500, p));
+      // While the market runs, each reprice is timestamped so customers see it from that moment on
+      if (settings.currentPhase === 'simulation' && session.isActive && next.price !== team.decisions?.price) {
+        const changes = Array.isArray(next.price_changes) ? next.price_changes : [];
+        next.price_changes = [...changes, { at: new Date().toISOString(), price: next.price }].slice(-MAX_PRICE_CHANGES);
+      }
     }
 
     const isPrePurchasePhase = settings.currentPhase === 'prePurchase';
@@ -915,9 +942,18 @@ export class GameService {
         next.fix_hold_pct = pct;
       }
       if (decision.tool !== undefined) {
-        const allowed = ['none','hedge','spotlight','commit'];
-        const tool = typeof decision.tool === 'string' && allowed.includes(decision.tool) ? decision.tool : 'none';
-        next.tool = tool;
+        const allowed = ['none', ...sessionTools(settings).map((tool) => tool.id)];
+        if (!allowed.includes(decision.tool)) throw new Error(`Unknown tool: ${decision.tool}`);
+        next.tool = decision.tool;
+      }
+      if (decision.ancillary_prices !== undefined) {
+        const offered = sessionAncillaries(settings).map((product) => product.id);
+        const prices = {};
+        for (const [id, value] of Object.entries(decision.ancillary_prices || {})) {
+          if (!offered.includes(id)) throw new Error(`Unknown ancillary: ${id}`);
+          if (Number.isFinite(Number(value))) prices[id] = Math.max(0, Number(value));
+        }
+        next.ancillary_prices = prices;
       }
     }
 
@@ -1216,72 +1252,27 @@ export class GameService {
       };
     });
 
-    // Sort descending by bid price, then by team id for determinism
-    const sortedRequests = [...requests].sort((a, b) => {
-      if (b.bidPrice !== a.bidPrice) return b.bidPrice - a.bidPrice;
-      return a.teamId.localeCompare(b.teamId);
-    });
-
-    let remainingCapacity = maxFixCapacity;
-    const allocationMap = new Map();
-
-    // Group by bid price to allow proportional allocation within price tiers
-    const grouped = new Map();
-    for (const req of sortedRequests) {
-      if (!grouped.has(req.bidPrice)) grouped.set(req.bidPrice, []);
-      grouped.get(req.bidPrice).push(req);
-    }
-
-    for (const [price, group] of grouped.entries()) {
-      if (remainingCapacity <= 0) break;
-      const totalGroupRequested = group.reduce((sum, req) => sum + req.requested, 0);
-      if (totalGroupRequested <= 0) {
-        group.forEach(req => allocationMap.set(req.teamId, { allocated: 0, price }));
-        continue;
-      }
-
-      if (totalGroupRequested <= remainingCapacity) {
-        // Everyone in this tier gets all requested seats
-        for (const req of group) {
-          allocationMap.set(req.teamId, { allocated: req.requested, price });
-          remainingCapacity -= req.requested;
-        }
-        continue;
-      }
-
-      // Not enough seats for this price tier: allocate proportionally
-      const ratio = remainingCapacity / totalGroupRequested;
-      const provisional = group.map(req => {
-        const exact = req.requested * ratio;
-        const base = Math.floor(exact);
-        const remainder = exact - base;
-        return { req, base, remainder };
-      });
-      let seatsLeft = remainingCapacity - provisional.reduce((sum, item) => sum + item.base, 0);
-
-      // Distribute leftover seats to highest remainder (stable tie-breaker by team id)
-      provisional.sort((a, b) => {
-        if (b.remainder !== a.remainder) return b.remainder - a.remainder;
-        return a.req.teamId.localeCompare(b.req.teamId);
-      });
-      for (const item of provisional) {
-        let extra = 0;
-        if (seatsLeft > 0) {
-          extra = 1;
-          seatsLeft -= 1;
-        }
-        const finalAlloc = item.base + extra;
-        allocationMap.set(item.req.teamId, { allocated: finalAlloc, price });
+    // Clear the auction with the same implementation the engine uses
+    const auction = clearAuction(
+      requests.map(req => ({
+        teamId: req.teamId,
+        bid_price_per_seat: req.bidPrice,
+        bid_quantity: req.requested
+      })),
+      {
+        capacity: maxFixCapacity,
+        mechanism: settings.auctionMechanism || 'pay_as_bid',
+        reserve_price: minBidPrice
       }
-      remainingCapacity = 0;
-    }
+    );
+    const allocationMap = new Map(auction.allocations.map(allocation => [allocation.teamId, allocation]));
 
     const allocations = [];
     for (const req of requests) {
-      const allocInfo = allocationMap.get(req.teamId) || { allocated: 0, price: req.bidPrice };
-      const allocated = Math.max(0, Math.min(req.requested, allocInfo.allocated || 0));
+      const allocInfo = allocationMap.get(req.teamId);
+      const allocated = Math.max(0, Math.min(req.requested, allocInfo?.awarded_fixed || 0));
       const disqualified = !req.meetsMinBid;
-      const clearingPrice = !disqualified && allocated > 0 ? allocInfo.price : null;
+      const clearingPrice = !disqualified && allocated > 0 ? allocInfo.avg_fixed_cost : null;
 
       const updatedDecisions = {
         ...req.team.decisions,
@@ -1337,7 +1328,9 @@ export class GameService {
       totalAllocated,
       maxFixCapacity,
       poolingReserveCapacity: Math.max(0, totalCapacity - totalAllocated),
-      minimumBidPrice: minBidPrice
+      minimumBidPrice: minBidPrice,
+      auctionMechanism: auction.mechanism,
+      marketClearingPrice: auction.clearing_price
     };
   }
 
@@ -1444,30 +1437,21 @@ export class GameService {
       : Math.max(0, Number.isFinite(Number(currentSettings.baseDemand)) ? Number(currentSettings.baseDemand) : 100);
     const scaledBaseDemand = Math.max(1, Math.round(scaledDemandTotal / Math.max(1, simulationHorizon)));
 
-    const perTeamState = {};
-    let committedFix = 0;
-    for (const t of teams) {
-      const fixRem = Math.max(0, t.decisions?.fixSeatsAllocated || 0);
-      const clearingPrice = Number.isFinite(Number(t.decisions?.fixSeatClearingPrice)) && Number(t.decisions?.fixSeatClearingPrice) > 0
-        ? Number(t.decisions?.fixSeatClearingPrice)
-        : (currentSettings.fixSeatPrice || 60);
-      const fixCost = fixRem * clearingPrice;
-      committedFix += fixRem;
-      perTeamState[t.id] = {
-        fixRemaining: fixRem,
-        poolRemaining: 0,
-        sold: 0,
-        poolUsed: 0,
-        demand: 0,
-        initialFix: fixRem,
-        initialPool: 0,
-        revenue: 0,
-        cost: fixCost,
-        insolvent: false
-      };
-    }
+    const rngSeed = Number.isFinite(Number(currentSettings.simRngSeed))
+      ? Number(currentSettings.simRngSeed)
+      : Math.floor(Math.random() * 1e9);
+
+    // The live market runs on the shared engine; its runtime is persisted with the settings
+    const engine = startEngineRun({
+      ...currentSettings,
+      totalAircraftSeats: totalSeats,
+      demandCurve: scaledDemandCurve,
+      simRngSeed: rngSeed >>> 0
+    }, teams, simulationHorizon);
+    const committedFix = engine.config.airline.C_total - engine.runtime.C_remain;
+    const perTeamState = toPerTeamState(engine.runtime);
 
-    const airlinePassThroughCapacity = Math.max(0, totalSeats - committedFix);
+    const airlinePassThroughCapacity = engine.runtime.C_remain;
     const existingMarket = currentSettings.poolingMarket || {};
     const initialAirlinePrice = Number.isFinite(Number(existingMarket.currentPrice)) && existingMarket.currentPrice > 0
       ? existingMarket.currentPrice
@@ -1477,7 +1461,7 @@ export class GameService {
       : [{ price: initialAirlinePrice, timestamp: new Date().toISOString(), demand: 0, remainingDays: simulationHorizon }];
 
     const updatedPM = {
-      currentPrice: initialAirlinePrice,
+      currentPrice: engine.runtime.P_airline,
       totalPoolingCapacity: airlinePassThroughCapacity,
       availablePoolingCapacity: airlinePassThroughCapacity,
       priceHistory: initialPriceHistory,
@@ -1487,10 +1471,6 @@ export class GameService {
       unmetDemand: 0
     };
 
-    const rngSeed = Number.isFinite(Number(currentSettings.simRngSeed))
-      ? Number(currentSettings.simRngSeed)
-      : Math.floor(Math.random() * 1e9);
-
     const updatedSettings = {
       ...currentSettings,
       currentPhase: 'simulation',
@@ -1518,6 +1498,11 @@ export class GameService {
       airlinePriceMax: currentSettings.airlinePriceMax ?? AGENT_V1_DEFAULTS.airline.maxPrice,
       poolingMarket: updatedPM,
       simState: { perTeam: perTeamState, returnedDemandRemaining: 0 },
+      engineConfig: engine.config,
+      engineRuntime: serializeRuntime(engine.runtime),
+      engineSnapshot: null,
+      seatBook: createOrderBook(),
+      seatTrades: [],
       airlineCapacityInitial: totalSeats,
       airlineCapacityFixedCommitted: committedFix,
       airlineCapacityRemaining: airlinePassThroughCapacity,
@@ -1525,8 +1510,7 @@ export class GameService {
         ? Number(currentSettings.airlineSalesCumulative)
         : 0,
       simRngSeed: rngSeed >>> 0,
-      simRngState: (rngSeed >>> 0),
-      poolingCost: initialAirlinePrice
+      poolingCost: engine.runtime.P_airline
     };
 
     await session.update({ settings: updatedSettings, isActive: true });
@@ -1565,60 +1549,12 @@ export class GameService {
     const session = await this.getCurrentGameSession(sessionId);
     const teams = await this.getActiveTeams(session.id);
     const settings = session.settings || {};
-    const simState = settings.simState && settings.simState.perTeam ? settings.simState.perTeam : null;
+    const engine = restoreEngineRun(settings);
     let roundResults;
-    if (simState) {
-      const defaultPoolingCost = settings.poolingCost || 90;
-      const pmHist = settings.poolingMarket && Array.isArray(settings.poolingMarket.priceHistory) ? settings.poolingMarket.priceHistory : [];
-      const avgPoolingUnit = pmHist.length > 0 ? Math.round(pmHist.reduce((s, p) => s + (p.price || 0), 0) / pmHist.length) : defaultPoolingCost;
-
-      const results = teams.map(team => {
-        const st = simState[team.id] || { fixRemaining: 0, poolRemaining: 0, sold: 0, poolUsed: 0, demand: 0, initialFix: 0, initialPool: 0 };
-        const sold = Math.max(0, Math.round(st.sold || 0));
-        const poolUsed = Math.max(0, Math.round(st.poolUsed || 0));
-        const initialFix = Math.max(0, Math.round(st.initialFix || ((team.decisions?.fixSeatsAllocated) || 0)));
-        const initialPool = Math.max(0, Math.round(st.initialPool || Math.round((settings.totalAircraftSeats || 1000) * ((team.decisions?.poolingAllocation || 0) / 100))));
-        const capacity = initialFix + initialPool;
-        const price = team.decisions?.price || 500;
-        const clearingPrice = Number.isFinite(Number(team.decisions?.fixSeatClearingPrice)) && Number(team.decisions?.fixSeatClearingPrice) > 0
-          ? Number(team.decisions?.fixSeatClearingPrice)
-          : (settings.fixSeatPrice || 60);
-        const passengerRevenue = st.revenue || (sold * price);
-        const fixSeatCost = initialFix * clearingPrice;
-        const poolingUsageCost = poolUsed * avgPoolingUnit;
-        const operationalCost = sold * 15;
-        let totalCost = st.cost || (fixSeatCost + poolingUsageCost + operationalCost);
-        totalCost = Math.max(0, Math.round(totalCost));
-        let profit = Math.round(passengerRevenue - totalCost);
-        if (profit < MIN_PROFIT_LIMIT) {
-          profit = MIN_PROFIT_LIMIT;
-          totalCost = Math.round(passengerRevenue - profit);
-        }
-        const demand = Math.max(0, Math.round(st.demand || 0));
-        const unsold = Math.max(0, demand - sold);
-        const budget = Number(settings.perTeamBudget || 0);
-        const flaggedEarly = !!st.insolvent;
-        const insolvent = (profit < 0 && Math.abs(profit) > budget && (session.currentRound || 0) > 0)
-          || (flaggedEarly && profit < 0 && Math.abs(profit) > budget);
-        return {
-          teamId: team.id,
-          sold,
-          revenue: Math.round(passengerRevenue),
-          cost: totalCost,
-          profit,
-          unsold,
-          marketShare: 0,
-          demand,
-          avgPrice: price,
-          capacity,
-          insolvent
-        };
-      });
-
-      const totalSold = results.reduce((s, r) => s + r.sold, 0) || 1;
-      roundResults = results.map(r => ({ ...r, marketShare: Math.round((r.sold / totalSold) * 100) / 100 }));
+    if (engine) {
+      roundResults = toRoundResults(engine.config, engine.runtime, teams);
     } else {
-      // Fallback to legacy calculator
+      // Fallback to legacy calculator (the round never reached the live market)
       roundResults = calculateRoundResults(teams, settings);
     }
 
@@ -1679,7 +1615,7 @@ export class GameService {
     if (!session) return null;
     const payload = typeof session.toJSON === 'function' ? session.toJSON() : { ...session };
     if (payload?.settings && typeof payload.settings === 'object') {
-      const { adminPassword, ...restSettings } = payload.settings;
+      const { adminPassword, engineConfig, engineRuntime, engineSnapshot, autopilots, ...restSettings } = payload.settings;
       payload.settings = restSettings;
     }
     if ('adminSocketId' in payload) {
@@ -1827,10 +1763,10 @@ export class GameService {
     const session = await this.getCurrentGameSession(sessionId);
     const activeTeams = await this.getActiveTeams(session.id);
 
-    // Sanitize settings to avoid leaking sensitive keys like adminPassword
+    // Sanitize settings to avoid leaking sensitive keys like adminPassword or the engine runtime
     const sanitizeSettings = (settings) => {
       if (!settings || typeof settings !== 'object') return {};
-      const { adminPassword, ...rest } = settings;
+      const { adminPassword, engineConfig, engineRuntime, engineSnapshot, autopilots, ...rest } = settings;
       const allocationDone = !!rest.fixSeatsAllocated;
       if (!allocationDone) {
         const { availableFixSeats, ...safe } = rest;
@@ -1875,77 +1811,41 @@ export class GameService {
       teams: teamsData,
       currentRound: session.currentRound,
       isActive: session.isActive,
-      ...sanitizeSettings(session.settings)
+      ...sanitizeSettings(session.settings),
+      tools: sessionTools(session.settings || {})
     };
   }
 
   // Update pooling market prices and availability
   static async updatePoolingMarket(sessionId = null) {
     const session = await this.getCurrentGameSession(sessionId);
+    return this.queueSettingsWrite(session.id, () => this.advancePoolingMarket(session));
+  }
+
+  static async advancePoolingMarket(session) {
     const teams = await this.getActiveTeams(session.id);
     const settings = session.settings || {};
     const poolingMarket = settings.poolingMarket || {};
-    const simState = settings.simState || { perTeam: {}, returnedDemandRemaining: 0 };
-    const totalSeatsSetting = settings.totalAircraftSeats || 1000;
-
-    const perTeam = simState.perTeam || {};
-    const aliveTeams = teams;
 
     const horizon = Number.isFinite(Number(settings.simulationHorizon))
       ? Math.max(1, Math.floor(Number(settings.simulationHorizon)))
       : AGENT_V1_DEFAULTS.ticksTotal;
     const daysRemaining = Number.isFinite(Number(settings.simulatedDaysUntilDeparture)) ? Math.max(0, Number(settings.simulatedDaysUntilDeparture)) : horizon;
-
     const dayStep = Number.isFinite(Number(settings.simulatedWeeksPerUpdate)) && Number(settings.simulatedWeeksPerUpdate) > 0
       ? Number(settings.simulatedWeeksPerUpdate)
       : 7;
-    const nextDays = Math.max(0, daysRemaining - dayStep);
-    const dayElapsed = Math.max(0, Math.min(horizon - 1, horizon - nextDays));
-    const progress = horizon > 0 ? (horizon - nextDays) / horizon : 0;
-
-    const demandCurve = Array.isArray(settings.demandCurve) && settings.demandCurve.length > 0
-      ? settings.demandCurve
-      : AGENT_V1_DEFAULTS.demandCurve;
-    let curveSample = undefined;
-    if (Array.isArray(demandCurve) && demandCurve.length > 0) {
-      const cappedIndex = Math.min(dayElapsed, demandCurve.length - 1);
-      curveSample = demandCurve[cappedIndex];
-    }
-    const periods = Math.max(1, demandCurve.length || 1);
-    const periodLength = Math.max(1, Math.round(horizon / periods));
-    let baseDemandRaw = 0;
-    if (curveSample !== undefined) {
-      const baseDemandCandidate = Number(curveSample);
-      baseDemandRaw = Number.isFinite(baseDemandCandidate) ? Math.max(0, baseDemandCandidate / periodLength) : 0;
-    } else {
-      const fallback = Number(settings.baseDemand ?? 0);
-      baseDemandRaw = Number.isFinite(fallback) ? Math.max(0, fallback) : 0;
-    }
-    const committedFixForecast = Math.max(0, Number(settings.airlineCapacityFixedCommitted ?? 0));
-    const passThroughForecast = Math.max(0, Number(settings.airlineCapacityInitial ?? settings.totalAircraftSeats ?? 1000) - committedFixForecast);
-    const totalSeatsForecast = committedFixForecast + passThroughForecast;
-    const cumulativeSalesToDate = Math.max(0, Number(settings.airlineSalesCumulative ?? 0));
-    const remainingCapacityTarget = Math.max(0, totalSeatsForecast - cumulativeSalesToDate);
-    const smoothingDemand = Math.max(0, Math.round(remainingCapacityTarget / Math.max(1, daysRemaining + 1)));
-    const baseDemand = Math.max(0, Math.round((baseDemandRaw + smoothingDemand) / 2));
-    const volatility = Math.abs(settings.demandVolatility ?? 0.1);
-
-    const rngSeedBase = Number.isFinite(Number(settings.simRngState))
-      ? Number(settings.simRngState) >>> 0
-      : (Number.isFinite(Number(settings.simRngSeed)) ? Number(settings.simRngSeed) >>> 0 : (Math.floor(Math.random() * 1e9) >>> 0));
-    let rngState = rngSeedBase;
-    const nextRandom = () => {
-      rngState = (rngState * 1664525 + 1013904223) >>> 0;
-      return rngState / 0xffffffff;
-    };
 
-    const demandNoise = (nextRandom() * 2 - 1) * volatility;
+    // Sessions that entered the simulation before the engine took over get a run for the days left
+    let engine = restoreEngineRun(settings);
+    if (!engine && teams.length > 0 && daysRemaining > 0) {
+      engine = startEngineRun(settings, teams, daysRemaining);
+    }
 
-    if (aliveTeams.length === 0) {
+    if (!engine) {
+      const nextDays = Math.max(0, daysRemaining - dayStep);
       const updatedSettings = {
         ...settings,
-        simulatedDaysUntilDeparture: nextDays,
-        simRngState: rngState
+        simulatedDaysUntilDeparture: nextDays
       };
       await session.update({ settings: updatedSettings });
       session.settings = updatedSettings;
@@ -1957,239 +1857,67 @@ export class GameService {
       };
     }
 
-    const minPrice = aliveTeams.reduce((min, team) => {
-      const price = typeof team.decisions?.price === 'number' ? team.decisions.price : 500;
-      return Math.min(min, price);
-    }, Infinity);
-
-    const referenceCurve = Array.isArray(settings.referencePriceCurve) ? settings.referencePriceCurve : null;
-    const refPrice = Number((referenceCurve?.[dayElapsed] ?? settings.referencePrice ?? minPrice) || AGENT_V1_DEFAULTS.referencePrice);
-    const referencePrice = Math.max(1, refPrice);
-    const priceAlpha = Math.abs(settings.priceAlpha ?? AGENT_V1_DEFAULTS.demandAlpha);
-
-    const priceRatio = (minPrice - referencePrice) / Math.max(referencePrice, 1);
-    const demandScale = Math.exp(-priceAlpha * priceRatio);
-    const totalDemandRaw = Math.max(0, Math.round(baseDemand * Math.max(0, 1 + demandNoise) * demandScale));
-    const demandMin = Number.isFinite(Number(settings.demandMin)) ? Math.max(0, Number(settings.demandMin)) : 0;
-    const demandMax = Number.isFinite(Number(settings.demandMax)) ? Math.max(demandMin, Number(settings.demandMax)) : Number.POSITIVE_INFINITY;
-    const totalDemand = Math.max(demandMin, Math.min(demandMax, totalDemandRaw));
-
-    const priceBeta = Math.abs(settings.priceBeta ?? AGENT_V1_DEFAULTS.logitBeta);
-    const pricePriorityBoost = Math.max(1, Number(settings.pricePriorityBoost ?? AGENT_V1_DEFAULTS.pricePriorityBoost ?? 1));
-    const priceWeights = aliveTeams.map(team => {
-      const price = Math.max(1, typeof team.decisions?.price === 'number' ? team.decisions.price : 500);
-      const relative = price / Math.max(1, minPrice);
-      const diff = Math.max(0, relative - 1);
-      const penalty = diff * pricePriorityBoost;
-      return Math.max(Math.exp(-priceBeta * penalty), 0.0001);
-    });
-    const totalWeight = priceWeights.reduce((sum, w) => sum + w, 0) || aliveTeams.length;
-    const desiredDemand = aliveTeams.map((_, idx) => (totalDemand * priceWeights[idx]) / totalWeight);
-
-    const demandInt = desiredDemand.map(Math.floor);
-    let remainder = totalDemand - demandInt.reduce((sum, val) => sum + val, 0);
-    const remainders = desiredDemand.map((value, idx) => ({ idx, frac: value - Math.floor(value) }));
-    remainders.sort((a, b) => b.frac - a.frac || a.idx - b.idx);
-    for (const item of remainders) {
-      if (remainder <= 0) break;
-      demandInt[item.idx] += 1;
-      remainder -= 1;
-    }
-
-    const rankedTeams = aliveTeams.map((team, idx) => ({ team, idx }))
-      .sort((a, b) => {
-        const priceA = typeof a.team.decisions?.price === 'number' ? a.team.decisions.price : 500;
-        const priceB = typeof b.team.decisions?.price === 'number' ? b.team.decisions.price : 500;
-        if (priceA !== priceB) return priceA - priceB;
-        return a.team.name.localeCompare(b.team.name);
-      });
-
-    const committedFix = Math.max(0, Number(settings.airlineCapacityFixedCommitted ?? 0));
-    const passThroughInitial = Math.max(0, Number(settings.airlineCapacityInitial ?? settings.totalAircraftSeats ?? 1000) - committedFix);
-    const airlineRemaining = Math.max(0, Number(settings.airlineCapacityRemaining ?? passThroughInitial));
-    let availablePassThrough = airlineRemaining;
-
-    const currentPoolingPrice = Number.isFinite(Number(poolingMarket.currentPrice)) && poolingMarket.currentPrice > 0
-      ? poolingMarket.currentPrice
-      : Math.max(1, Number(settings.poolingCost ?? 90));
-
-    const newPerTeam = { ...perTeam };
-    let totalPoolSold = 0;
-    let totalFixSold = 0;
-    let totalUnsatisfied = 0;
-
-    for (const { team, idx } of rankedTeams) {
-      const demandForTeam = demandInt[idx];
-      const id = team.id;
-      const state = newPerTeam[id] || {
-        fixRemaining: Math.max(0, team.decisions?.fixSeatsAllocated || 0),
-        poolRemaining: 0,
-        sold: 0,
-        poolUsed: 0,
-        demand: 0,
-        initialFix: Math.max(0, team.decisions?.fixSeatsAllocated || 0),
-        initialPool: 0,
-        revenue: 0,
-        cost: Math.max(0, (team.decisions?.fixSeatsAllocated || 0) * (team.decisions?.fixSeatClearingPrice || settings.fixSeatPrice || 60)),
-        insolvent: false
-      };
-      const price = typeof team.decisions?.price === 'number' ? team.decisions.price : 500;
-
-      const fixRemaining = Math.max(0, state.fixRemaining || 0);
-      const sellFix = Math.min(demandForTeam, fixRemaining);
-      let remainingDemand = demandForTeam - sellFix;
-
-      totalFixSold += sellFix;
-
-      let poolSold = Math.min(remainingDemand, Math.max(0, availablePassThrough));
-      if (poolSold > 0) {
-        const budget = Number(settings.perTeamBudget || 0);
-        if (price < currentPoolingPrice && budget > 0 && !(state.insolvent)) {
-          const currentProfit = (state.revenue || 0) - (state.cost || 0);
-          const profitAfterFix = currentProfit + (sellFix * price);
-          const margin = price - currentPoolingPrice; // negative when at risk
-          if (margin < 0) {
-            const maxAdditionalLoss = budget + profitAfterFix;
-            if (maxAdditionalLoss <= 0) {
-              poolSold = 0;
-            } else {
-              const maxSeatsByBudget = Math.floor(maxAdditionalLoss / (-margin));
-              poolSold = Math.min(poolSold, Math.max(0, maxSeatsByBudget));
-            }
-          }
-        }
-      }
-      poolSold = Math.max(0, Math.min(poolSold, Math.max(0, availablePassThrough)));
-      availablePassThrough -= poolSold;
-      totalPoolSold += poolSold;
-      remainingDemand -= poolSold;
-      totalUnsatisfied += Math.max(0, remainingDemand);
-
-      const revenueAdd = (sellFix + poolSold) * price;
-      const costAdd = poolSold * currentPoolingPrice;
-
-      const newRevenueRaw = Math.max(0, (state.revenue || 0) + revenueAdd);
-      let newCost = Math.max(0, (state.cost || 0) + costAdd);
-      if (newRevenueRaw - newCost < MIN_PROFIT_LIMIT) {
-        newCost = newRevenueRaw - MIN_PROFIT_LIMIT;
-      }
-      const newRevenue = newRevenueRaw;
-      const accumulatedDemand = Math.max(0, (state.demand || 0) + demandForTeam);
-      const accumulatedSold = Math.max(0, (state.sold || 0) + sellFix + poolSold);
-      const accumulatedPool = Math.max(0, (state.poolUsed || 0) + poolSold);
-      const initialPool = Math.max(state.initialPool || 0, accumulatedPool);
-      const accumulatedFixSold = Math.max(0, (state.fixSold || 0) + sellFix);
-
-      newPerTeam[id] = {
-        ...state,
-        fixRemaining: Math.max(0, fixRemaining - sellFix),
-        poolRemaining: Math.max(0, availablePassThrough),
-        sold: accumulatedSold,
-        poolUsed: accumulatedPool,
-        demand: accumulatedDemand,
-        initialFix: state.initialFix ?? Math.max(0, team.decisions?.fixSeatsAllocated || 0),
-        initialPool,
-        fixSold: accumulatedFixSold,
-        revenue: newRevenue,
-        cost: newCost,
-        insolvent: !!state.insolvent
-      };
-    }
-
-    const budget = Number(settings.perTeamBudget || 0);
-    for (const team of aliveTeams) {
-      const st = newPerTeam[team.id];
-      if (!st) continue;
-      const profitForecast = (st.revenue || 0) - (st.cost || 0);
-      if (profitForecast < MIN_PROFIT_LIMIT) {
-        newPerTeam[team.id].cost = (st.revenue || 0) - MIN_PROFIT_LIMIT;
-      }
-      if (profitForecast < 0 && Math.abs(profitForecast) > budget) {
-        newPerTeam[team.id].insolvent = true;
+    const { config, runtime } = engine;
+    // This update covers the wall-clock time since the last one; reprices within it are replayed in place
+    const now = Date.now();
+    const lastUpdate = Date.parse(poolingMarket.lastUpdate);
+    const window = Number.isFinite(lastUpdate) ? { start: lastUpdate, end: now } : null;
+    const autopilot = { programs: autopilotPrograms(settings), snapshot: settings.engineSnapshot ?? null };
+    const days = advanceEngine(config, runtime, teams, dayStep, window, autopilot);
+    const nextDays = runtime.tick;
+    const demand = days.reduce((sum, day) => sum + day.demand_realized, 0);
+    const unmetDemand = days.reduce((sum, day) => sum + day.demand_lost, 0);
+    const soldThisTick = days.reduce((sum, day) =>
+      sum + day.sales.reduce((daySum, sale) => daySum + sale.sold_fix + sale.sold_pool, 0), 0);
+
+    // Tools are one-shot and reprices are replayed once: clear them once the engine has seen them
+    for (const team of teams) {
+      if (days.length === 0) break;
+      const usedTool = team.decisions?.tool && team.decisions.tool !== 'none';
+      const changes = Array.isArray(team.decisions?.price_changes) ? team.decisions.price_changes : [];
+      const pending = changes.filter((change) => Date.parse(change.at) >= now);
+      if (usedTool || pending.length !== changes.length) {
+        const decisions = { ...team.decisions, tool: usedTool ? 'none' : team.decisions.tool, price_changes: pending };
+        await team.update({ decisions });
+        team.decisions = decisions;
       }
     }
 
-    const totalPassThroughCapacity = passThroughInitial;
-    const totalSeatsOverall = committedFix + totalPassThroughCapacity;
-    const soldThisTick = totalPoolSold + totalFixSold;
-    const newAirlineRemaining = Math.max(0, availablePassThrough);
-
-    const forecastCurve = Array.isArray(settings.airlineForecastCurve) ? settings.airlineForecastCurve : null;
-    let forecastTarget = Number(forecastCurve?.[dayElapsed] ?? NaN);
-    if (!Number.isFinite(forecastTarget)) {
-      forecastTarget = totalSeatsOverall * progress;
-    }
-
-    const cumulativeBefore = Number(settings.airlineSalesCumulative ?? 0);
-    const newCumulative = cumulativeBefore + soldThisTick;
-    const delta = newCumulative - forecastTarget;
-
-    const currentAirlinePrice = Number.isFinite(Number(poolingMarket.currentPrice)) && poolingMarket.currentPrice > 0
-      ? Math.round(poolingMarket.currentPrice)
-      : AGENT_V1_DEFAULTS.airline.startPrice;
-    const shouldUpdatePrice = nextDays === 0 || nextDays % 7 === 0;
-
-    let newPrice = currentAirlinePrice;
-    let priceHistory = Array.isArray(poolingMarket.priceHistory) ? [...poolingMarket.priceHistory] : [];
-
-    if (shouldUpdatePrice || priceHistory.length === 0) {
-      const priceMin = Number.isFinite(Number(settings.airlinePriceMin))
-        ? Math.max(1, Number(settings.airlinePriceMin))
-        : AGENT_V1_DEFAULTS.airline.minPrice;
-      const priceMax = Number.isFinite(Number(settings.airlinePriceMax))
-        ? Math.max(priceMin + 1, Number(settings.airlinePriceMax))
-        : AGENT_V1_DEFAULTS.airline.maxPrice;
-      const gamma = Number.isFinite(Number(settings.airlinePriceGamma))
-        ? Number(settings.airlinePriceGamma)
-        : AGENT_V1_DEFAULTS.airline.gamma;
-      const kappa = Number.isFinite(Number(settings.airlinePriceKappa))
-        ? Math.max(1, Number(settings.airlinePriceKappa))
-        : AGENT_V1_DEFAULTS.airline.kappa;
-
-      const pressure = Math.tanh(delta / Math.max(1, kappa));
-      const headroomUp = Math.max(0, priceMax - currentAirlinePrice);
-      const headroomDown = Math.max(0, currentAirlinePrice - priceMin);
-      const appliedHeadroom = pressure >= 0 ? headroomUp : headroomDown;
-      let candidatePrice = currentAirlinePrice + appliedHeadroom * gamma * pressure;
-      candidatePrice = Math.max(priceMin, Math.min(priceMax, candidatePrice));
-      candidatePrice = Math.round(candidatePrice);
-      if (!Number.isFinite(candidatePrice) || candidatePrice <= 0) {
-        candidatePrice = Math.max(1, currentAirlinePrice);
-      }
-
-      newPrice = candidatePrice;
-      priceHistory = [...priceHistory, { price: newPrice, timestamp: new Date().toISOString(), demand: totalDemand, remainingDays: nextDays }].slice(-120);
-      if (priceHistory.length > 90) priceHistory.shift();
-    }
+    const priceHistory = [
+      ...(Array.isArray(poolingMarket.priceHistory) ? poolingMarket.priceHistory : []),
+      { price: runtime.P_airline, timestamp: new Date().toISOString(), demand, remainingDays: nextDays }
+    ].slice(-90);
 
     const updatedPoolingMarket = {
       ...poolingMarket,
-      currentPrice: newPrice,
-      availablePoolingCapacity: newAirlineRemaining,
-      totalPoolingCapacity: totalPassThroughCapacity,
-      lastUpdate: new Date().toISOString(),
+      currentPrice: runtime.P_airline,
+      availablePoolingCapacity: runtime.C_remain,
+      totalPoolingCapacity: poolingMarket.totalPoolingCapacity ?? runtime.C_remain,
+      lastUpdate: new Date(now).toISOString(),
       priceHistory,
-      currentDemand: totalDemand,
+      currentDemand: demand,
       soldThisTick,
-      unmetDemand: totalUnsatisfied
+      unmetDemand
     };
 
     const updatedSettings = {
       ...settings,
       poolingMarket: updatedPoolingMarket,
       simulatedDaysUntilDeparture: nextDays,
-      simState: { perTeam: newPerTeam, returnedDemandRemaining: 0 },
-      airlineCapacityRemaining: newAirlineRemaining,
-      airlineSalesCumulative: newCumulative,
-      poolingCost: newPrice,
-      simRngState: rngState
+      simState: { perTeam: toPerTeamState(runtime, settings.simState?.perTeam), returnedDemandRemaining: 0 },
+      engineConfig: config,
+      engineRuntime: serializeRuntime(runtime),
+      engineSnapshot: autopilot.snapshot,
+      airlineCapacityRemaining: runtime.C_remain,
+      airlineSalesCumulative: Number(settings.airlineSalesCumulative ?? 0) + soldThisTick,
+      poolingCost: runtime.P_airline
     };
 
     await session.update({ settings: updatedSettings });
     session.settings = updatedSettings;
 
     const phaseCompleted = nextDays <= 0;
-    console.log(`🏊 Pooling market updated: €${newPrice} (sold pool: ${soldThisTick}, unmet demand: ${totalUnsatisfied}, ticks left: ${nextDays})`);
+    console.log(`🏊 Pooling market updated: €${Math.round(runtime.P_airline)} (sold: ${soldThisTick}, unmet demand: ${unmetDemand}, ticks left: ${nextDays})`);
 
     return {
       ...updatedPoolingMarket,
@@ -2198,6 +1926,107 @@ export class GameService {
     };
   }
 
+  // Secondary market: teams trade fixed seats with each other during the live phase.
+  // `change` edits the order book; matched trades move fixRemaining and cost between teams.
+  static async updateSeatMarket(socketId, change) {
+    const team = await TeamModel.findOne({ where: { socketId, isActive: true } });
+    if (!team) return null;
+
+    const session = await this.getCurrentGameSession(team.gameSessionId);
+    return this.queueSettingsWrite(session.id, () => this.tradeSeats(session, team, change));
+  }
+
+  static async tradeSeats(session, team, change) {
+    const settings = session.settings || {};
+    const perTeam = settings.simState?.perTeam;
+    if (settings.currentPhase !== 'simulation' || !perTeam || !perTeam[team.id]) {
+      throw new Error('Seat trading is only open during the simulation phase');
+    }
+
+    const book = settings.seatBook ? JSON.parse(JSON.stringify(settings.seatBook)) : createOrderBook();
+    const tick = Math.max(0, Number(settings.simulatedDaysUntilDeparture) || 0);
+    const order = change(book, team.id, tick);
+
+    const inventory = {};
+    for (const [teamId, state] of Object.entries(perTeam)) {
+      inventory[teamId] = { fixed_left: Math.max(0, state.fixRemaining || 0), avg_fixed_cost: state.avgFixedCost || 0 };
+    }
+    // Under a budget, buyers only get the seats they can pay for within their credit line
+    const engine = restoreEngineRun(settings);
+    const trades = matchSeatOrders(book, inventory, tick, engine ? spendableCash(engine.config, engine.runtime) : undefined);
+
+    const nextPerTeam = { ...perTeam };
+    for (const trade of trades) {
+      const amount = trade.quantity * trade.price;
+      nextPerTeam[trade.buyer] = { ...nextPerTeam[trade.buyer], cost: (nextPerTeam[trade.buyer].cost || 0) + amount };
+      nextPerTeam[trade.seller] = { ...nextPerTeam[trade.seller], cost: (nextPerTeam[trade.seller].cost || 0) - amount };
+    }
+    for (const teamId of new Set(trades.flatMap((trade) => [trade.buyer, trade.seller]))) {
+      nextPerTeam[teamId] = {
+        ...nextPerTeam[teamId],
+        fixRemaining: inventory[teamId].fixed_left,
+        avgFixedCost: inventory[teamId].avg_fixed_cost
+      };
+    }
+
+    const updatedSettings = {
+      ...settings,
+      seatBook: book,
+      seatTrades: [...(settings.seatTrades || []), ...trades].slice(-50),
+      simState: { ...settings.simState, perTeam: nextPerTeam }
+    };
+    if (settings.engineRuntime && trades.length > 0) {
+      updatedSettings.engineRuntime = settleSeatTrades(settings.engineRuntime, trades, inventory);
+    }
+    await session.update({ settings: updatedSettings });
+    session.settings = updatedSettings;
+
+    return { sessionId: session.id, order, trades, book: bookDepth(book) };
+  }
+
+  static async placeSeatOrder(socketId, { side, quantity, price } = {}) {
+    return this.updateSeatMarket(socketId, (book, teamId, tick) =>
+      postSeatOrder(book, teamId, { side, quantity: Number(quantity), price: Number(price) }, tick));
+  }
+
+  static async cancelSeatOrders(socketId) {
+    return this.updateSeatMarket(socketId, (book, teamId) => {
+      cancelSeatOrders(book, teamId);
+      return null;
+    });
+  }
+
+  // Pricing autopilot: validated rules that decide the team's price each tick while enabled,
+  // also after the team has left the session. Stored per team so they survive a disconnect.
+  static async setAutopilot(socketId, { enabled = true, rules } = {}) {
+    const team = await TeamModel.findOne({ where: { socketId, isActive: true } });
+    if (!team) return null;
+
+    const session = await this.getCurrentGameSession(team.gameSessionId);
+    return this.queueSettingsWrite(session.id, () => this.storeAutopilot(session, team, { enabled, rules }));
+  }
+
+  static async storeAutopilot(session, team, { enabled, rules }) {
+    const settings = session.settings || {};
+    const previous = settings.autopilots?.[team.id];
+    // Switching off never fails: without new rules the stored ones are kept as they are
+    const keep = rules === undefined && (previous || !enabled);
+    const autopilot = {
+      enabled: !!enabled,
+      rules: keep ? previous?.rules ?? [] : parseAutopilot(rules),
+      updatedAt: new Date().toISOString()
+    };
+
+    const updatedSettings = {
+      ...settings,
+      autopilots: { ...(settings.autopilots || {}), [team.id]: autopilot }
+    };
+    await session.update({ settings: updatedSettings });
+    session.settings = updatedSettings;
+
+    return { sessionId: session.id, autopilot };
+  }
+
   // Remove team (when user disconnects)
   static async removeTeam(socketId) {
     const team = await TeamModel.findOne({ where: { socketId } });
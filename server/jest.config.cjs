@@ -1,9 +1,15 @@
 module.exports = {
   testEnvironment: 'node',
-  moduleFileExtensions: ['js', 'jsx', 'json', 'node'],
+  moduleFileExtensions: ['js', 'jsx', 'ts', 'json', 'node'],
   // Enable ESM support (Node's native ESM). Requires Node 18+.
-  // No transforms; run JS as-is under ESM.
-  transform: {},
+  // JS runs as-is under ESM; the shared simulation engine (../src/lib/simulation) is TypeScript.
+  extensionsToTreatAsEsm: ['.ts'],
+  transform: {
+    '^.+\\.ts$': ['ts-jest', {
+      useESM: true,
+      tsconfig: { module: 'ESNext', target: 'ES2020', isolatedModules: true }
+    }]
+  },
   testEnvironmentOptions: {
     customExportConditions: ['node', 'node-addons']
   },
@@ -0,0 +1,31 @@
+#!/usr/bin/env node
+// Compares per-customer and multinomial sale allocation on a large aircraft.
+// Usage: node --import tsx server/scripts/benchAllocation.js [seats] [runs]
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import yaml from 'yaml';
+import { benchmarkAllocation } from '../../src/lib/simulation/batch.ts';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const baseConfig = yaml.parse(fs.readFileSync(path.join(__dirname, '../../apxo.config.yaml'), 'utf8'));
+
+const seats = Math.max(1, Number(process.argv[2]) || 2000);
+const runs = Math.max(1, Number(process.argv[3]) || 20);
+const scale = seats / baseConfig.airline.C_total;
+const config = {
+  ...baseConfig,
+  airline: { ...baseConfig.airline, C_total: seats },
+  market: { ...baseConfig.market, D_base: baseConfig.market.D_base.map((value) => Math.round(value * scale)) }
+};
+const strategies = Object.fromEntries(config.teams.map((team, idx) => [team.id, ['undercutter', 'yield_manager', 'drift'][idx % 3]]));
+
+const bench = benchmarkAllocation(config, { strategies, runs });
+const mean = (result, key) => result.teams.map((team) => `${team.teamId} ${team[key].mean.toFixed(key === 'load_factor' ? 3 : 0)}`).join(', ');
+
+console.log(`${seats} seats, ${runs} seeds, ${config.teams.length} teams`);
+for (const mode of ['per_customer', 'multinomial']) {
+  const { ms, result } = bench[mode];
+  console.log(`${mode.padEnd(13)} ${ms.toFixed(0).padStart(7)} ms | load factor: ${mean(result, 'load_factor')} | profit: ${mean(result, 'profit')}`);
+}
+console.log(`speedup: ${bench.speedup.toFixed(1)}x`);
@@ -6,7 +6,9 @@ import dotenv from 'dotenv';
 import { testConnection } from './database.js';
 import { syncDatabase, Team } from './models.js';
 import GameService, { isAdminSessionRecord } from './gameService.js';
-import { calculateRoundResults, calculateMarketShares } from './calc.js';
+import { calculateRoundResults } from './calc.js';
+import { advanceEngine, autopilotPrograms, startEngineRun } from './engineAdapter.js';
+import { spillTotal } from '../src/lib/simulation/engine.ts';
 
 const FIX_SHARE_PER_TEAM = 0.08;
 const TEAM_INACTIVITY_CHECK_INTERVAL_MS = 60_000;
@@ -901,11 +903,46 @@ io.on('connection', async (socket) => {
       }
     } catch (error) {
       console.error('Error updating team decision:', error);
-      if (typeof ack === 'function') ack({ ok: false, error: 'Failed to update team decision' });
+      if (typeof ack === 'function') ack({ ok: false, error: error.message || 'Failed to update team decision' });
       else socket.emit('error', 'Failed to update team decision');
     }
   });
 
+  // Secondary market for fixed seats; every change is pushed to the session as `seatMarket:update`
+  const handleSeatMarket = (action) => async (payload, maybeAck) => {
+    const ack = typeof payload === 'function' ? payload : maybeAck;
+    try {
+      const result = await action(payload);
+      if (!result) {
+        if (typeof ack === 'function') ack({ ok: false, error: 'Team not found or inactive' });
+        return;
+      }
+      io.to(getSessionRoom(result.sessionId)).emit('seatMarket:update', { book: result.book, trades: result.trades });
+      if (result.trades.length > 0) await broadcastGameState(result.sessionId);
+      if (typeof ack === 'function') ack({ ok: true, order: result.order, trades: result.trades });
+    } catch (error) {
+      console.error('Error updating seat market:', error);
+      if (typeof ack === 'function') ack({ ok: false, error: error.message || 'Failed to update seat market' });
+    }
+  };
+  socket.on('seatMarket:order', handleSeatMarket((order = {}) => GameService.placeSeatOrder(socket.id, order)));
+  socket.on('seatMarket:cancel', handleSeatMarket(() => GameService.cancelSeatOrders(socket.id)));
+
+  // Pricing autopilot: payload { enabled, rules }; the ack returns the stored rules or the validation error
+  socket.on('autopilot:set', async (payload = {}, ack) => {
+    try {
+      const result = await GameService.setAutopilot(socket.id, payload);
+      if (!result) {
+        if (typeof ack === 'function') ack({ ok: false, error: 'Team not found or inactive' });
+        return;
+      }
+      if (typeof ack === 'function') ack({ ok: true, autopilot: result.autopilot });
+    } catch (error) {
+      console.error('Error setting autopilot:', error);
+      if (typeof ack === 'function') ack({ ok: false, error: error.message || 'Failed to set autopilot' });
+    }
+  });
+
   // Server-side Practice Mode: simulate rounds vs. AI without touching DB state
   socket.on('startPracticeMode', async (config = {}) => {
     try {
@@ -1604,35 +1641,59 @@ io.on('connection', async (socket) => {
   });
 });
 
-// Run monthly simulation for 12 months
+// Run monthly simulation for 12 months on the shared engine (one tick per month)
 async function runMonthlySimulation(sessionId = null) {
   const session = await GameService.getCurrentGameSession(sessionId || undefined);
   const teams = await GameService.getActiveTeams(session.id);
   const settings = session.settings || {};
 
   const simulationMonths = settings.simulationMonths || 12;
-  const departureDate = new Date(settings.departureDate || Date.now() + 12 * 30 * 24 * 60 * 60 * 1000);
   const currentDate = new Date();
+  const { config, runtime } = startEngineRun(settings, teams, simulationMonths);
+  const names = new Map(teams.map(team => [team.id, team.name]));
+  // Month 1 also carries the fixed-seat purchase, so monthly profits add up to the final result
+  const booked = Object.fromEntries(teams.map(team => [team.id, { revenue: 0, cost: 0 }]));
+  const autopilot = { programs: autopilotPrograms(settings), snapshot: null };
 
   const monthlyResults = [];
 
   for (let month = 1; month <= simulationMonths; month++) {
     const monthDate = new Date(currentDate.getTime() + month * 30 * 24 * 60 * 60 * 1000);
-    const monthsToDeparture = Math.max(0, Math.ceil((departureDate.getTime() - monthDate.getTime()) / (30 * 24 * 60 * 60 * 1000)));
-
-    // Calculate demand based on months to departure (higher demand closer to departure)
-    const baseDemand = settings.baseDemand || 100;
-    const demandMultiplier = Math.max(0.5, Math.min(2.0, 1 + (12 - monthsToDeparture) / 12));
-    const monthlyDemand = Math.round(baseDemand * demandMultiplier);
-
-    // Calculate results for this month
-    const monthResults = calculateMonthlyResults(teams, settings, monthlyDemand, monthsToDeparture);
+    const monthsToDeparture = runtime.tick;
+    const capacity = Object.fromEntries(teams.map(team => [team.id, (runtime.team[team.id]?.fixed_left ?? 0) + runtime.C_remain]));
+
+    const [day] = advanceEngine(config, runtime, teams, 1, null, autopilot);
+    if (!day) break;
+    const monthSold = day.sales.reduce((sum, sale) => sum + sale.sold_fix + sale.sold_pool, 0) || 1;
+    const turnedAway = new Map(day.lost_demand.map(entry => [entry.teamId, spillTotal(entry)]));
+
+    const monthResults = day.sales.map(sale => {
+      const state = runtime.team[sale.teamId];
+      const sold = sale.sold_fix + sale.sold_pool;
+      const unsold = turnedAway.get(sale.teamId) || 0;
+      const revenue = state.revenue - booked[sale.teamId].revenue;
+      const cost = state.cost - booked[sale.teamId].cost;
+      booked[sale.teamId] = { revenue: state.revenue, cost: state.cost };
+      return {
+        teamId: sale.teamId,
+        teamName: names.get(sale.teamId),
+        demand: sold + unsold,
+        sold,
+        capacity: capacity[sale.teamId],
+        price: state.price,
+        revenue: Math.round(revenue),
+        cost: Math.round(cost),
+        profit: Math.round(revenue - cost),
+        marketShare: Math.round((sold / monthSold) * 100) / 100,
+        unsold
+      };
+    });
 
     monthlyResults.push({
       month,
       date: monthDate.toISOString(),
       monthsToDeparture,
-      totalDemand: monthlyDemand,
+      totalDemand: day.demand_realized,
       teamResults: monthResults
     });
 
@@ -1666,55 +1727,6 @@ async function runMonthlySimulation(sessionId = null) {
   };
 }
 
-// Calculate results for a specific month
-function calculateMonthlyResults(teams, settings, monthlyDemand, monthsToDeparture) {
-  // Calculate market shares based on team strategies
-  const marketShares = calculateMarketShares(teams, settings);
-
-  return teams.map(team => {
-    const teamShare = marketShares[team.id] || 0;
-    const teamDemand = Math.round(monthlyDemand * teamShare);
-
-    // Calculate available capacity (fix seats + pooling allocation)
-    const fixSeats = (team.decisions?.fixSeatsAllocated ?? team.decisions?.fixSeatsPurchased ?? 0);
-    const poolingAllocation = (team.decisions.poolingAllocation || 0) / 100;
-    const totalPoolingCapacity = Math.round((settings.totalAircraftSeats || 1000) * poolingAllocation);
-    const availableCapacity = fixSeats + totalPoolingCapacity;
-
-    // Calculate actual sales
-    const sold = Math.min(teamDemand, availableCapacity);
-    const price = team.decisions.price || 500;
-
-    // Revenue from passenger sales
-    const passengerRevenue = sold * price;
-
-    // Costs
-    const clearingPrice = Number.isFinite(Number(team.decisions?.fixSeatClearingPrice)) && Number(team.decisions.fixSeatClearingPrice) > 0
-      ? Number(team.decisions.fixSeatClearingPrice)
-      : (settings.fixSeatPrice || 60);
-    const fixSeatCost = fixSeats * clearingPrice;
-    const poolingCost = totalPoolingCapacity * (settings.poolingCost || 30); // Assume pooling cost
-    const operationalCost = sold * 15; // Variable operational costs
-
-    const totalCost = fixSeatCost + poolingCost + operationalCost;
-    const profit = passengerRevenue - totalCost;
-
-    return {
-      teamId: team.id,
-      teamName: team.name,
-      demand: teamDemand,
-      sold,
-      capacity: availableCapacity,
-      price,
-      revenue: Math.round(passengerRevenue),
-      cost: Math.round(totalCost),
-      profit: Math.round(profit),
-      marketShare: Math.round(teamShare * 100) / 100,
-      unsold: Math.max(0, teamDemand - sold)
-    };
-  });
-}
-
 const PORT = process.env.PORT || 3001;
 
 // Start the server with database initialization
@@ -1722,7 +1734,7 @@ initializeServer();
 function createGameStatePayload(session, teams, runtime, socketId) {
   const sanitizeSettings = (settings) => {
     if (!settings || typeof settings !== 'object') return {};
-    const { adminPassword, ...rest } = settings;
+    const { adminPassword, engineConfig, engineRuntime, engineSnapshot, autopilots, ...rest } = settings;
     const allocationDone = !!rest.fixSeatsAllocated;
     if (!allocationDone) {
       const { availableFixSeats, ...safe } = rest;
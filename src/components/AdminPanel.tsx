@@ -8,6 +8,7 @@ import { Switch } from "@/components/ui/switch";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { BarChart3, Settings, TrendingUp, Users, Target, Activity, Award } from "lucide-react";
 import { defaultConfig } from "@/lib/simulation/defaultConfig";
+import ScoreBreakdown, { compareByScore, formatScore } from "./ScoreBreakdown";
 import {
   LineChart,
   Line,
@@ -161,10 +162,11 @@ export default function AdminPanel({
     return Math.max(0, Math.min(10, Math.round(normalized * 10)));
   };
 
+  // Engine rounds are ranked by the configured score; legacy rounds keep profit points
   const resultsWithPoints = latestRoundResults?.map(result => ({
     ...result,
     points: computePoints(Number(result.profit ?? 0))
-  })) ?? null;
+  })).sort((a, b) => (typeof a.score === 'number' && typeof b.score === 'number' ? compareByScore(a, b) : 0)) ?? null;
 
   const latestAnalyticsRound = Array.isArray(roundHistory) && roundHistory.length > 0
     ? roundHistory[roundHistory.length - 1]
@@ -850,11 +852,23 @@ export default function AdminPanel({
                                 <span className="block text-slate-500 uppercase tracking-wide">Market Share</span>
                                 <span className="font-mono text-sm text-white">{(Number(result.marketShare ?? 0) * 100).toFixed(1)}%</span>
                               </div>
-                              <div>
-                                <span className="block text-slate-500 uppercase tracking-wide">Points</span>
-                                <span className="font-mono text-sm text-slate-200">{Math.round(result.points)} / 10</span>
-                              </div>
+                              {typeof result.score === 'number' ? (
+                                <div>
+                                  <span className="block text-slate-500 uppercase tracking-wide">Score</span>
+                                  <span className="font-mono text-sm text-slate-200">
+                                    {formatScore(result.score)}{result.eligible === false && ' (not eligible)'}
+                                  </span>
+                                </div>
+                              ) : (
+                                <div>
+                                  <span className="block text-slate-500 uppercase tracking-wide">Points</span>
+                                  <span className="font-mono text-sm text-slate-200">{Math.round(result.points)} / 10</span>
+                                </div>
+                              )}
                             </div>
+                            {Array.isArray(result.score_breakdown) && (
+                              <ScoreBreakdown components={result.score_breakdown} className="mt-2" />
+                            )}
                           </div>
                         );
                       })}
@@ -18,6 +18,9 @@ import { ResponsiveContainer, AreaChart, Area, CartesianGrid, XAxis, YAxis, Line
 import { Users, Award, Settings, MapPin, Sun, Camera, Compass, Anchor, Mountain, Tent, Binoculars, Map as MapIcon, Navigation, Waves, Snowflake, Eye, Star, Coffee, CheckCircle, Clock } from 'lucide-react';
 import { useToast } from './ui/toast';
 import { defaultConfig } from '@/lib/simulation/defaultConfig';
+import ToolPanel from './ToolPanel';
+import SeatMarketPanel from './SeatMarketPanel';
+import ScoreBreakdown, { compareByScore, formatScore } from './ScoreBreakdown';
 
 const TEAM_COLORS = ['#3b82f6', '#ec4899', '#10b981', '#f59e0b', '#8b5cf6', '#06b6d4'];
 
@@ -81,6 +84,9 @@ export const MultiUserApp: React.FC = () => {
   resetCurrentGame,
   confirmPhaseOne,
   deleteAllSessions,
+  placeSeatOrder,
+  cancelSeatOrders,
+  seatMarket,
   sessions,
   currentSessionId,
   launchSession,
@@ -466,6 +472,8 @@ export const MultiUserApp: React.FC = () => {
     return Math.max(0, Math.min(10, Math.round(normalized * 10)));
   };
 
+  // Engine rounds carry the configured score; legacy rounds fall back to profit points
+  const roundHasScores = roundResultsData.some(result => typeof result.score === 'number');
   const roundResultsWithMeta = React.useMemo(() => {
     if (!roundResultsData.length) return null;
     const teamNameLookup = new Map((gameState.teams || []).map(team => [team.id, team.name]));
@@ -473,8 +481,8 @@ export const MultiUserApp: React.FC = () => {
       ...result,
       teamName: teamNameLookup.get(result.teamId) || result.teamId,
       points: getRoundPoints(Number(result.profit ?? 0))
-    })).sort((a, b) => b.points - a.points);
-  }, [roundResultsData, gameState.teams]);
+    })).sort((a, b) => (roundHasScores ? compareByScore(a, b) : b.points - a.points));
+  }, [roundResultsData, roundHasScores, gameState.teams]);
 
   const currentTeamRound = React.useMemo(() => {
     if (!roundResultsWithMeta || !currentTeam) return null;
@@ -637,6 +645,7 @@ export const MultiUserApp: React.FC = () => {
         fixRemaining,
         poolRemaining,
         totalRemaining,
+        score: typeof finalResult?.score === 'number' ? finalResult.score : null,
         order
       };
     });
@@ -1018,10 +1027,17 @@ export const MultiUserApp: React.FC = () => {
                             <span className="block text-slate-500 uppercase tracking-wide">Profit</span>
                             <span className={`font-mono text-sm ${profitColor}`}>€{currencyFormatter.format(team.profit)}</span>
                           </div>
-                          <div>
-                            <span className="block text-slate-500 uppercase tracking-wide">Points</span>
-                            <span className="font-mono text-sm text-slate-200">{team.points.toFixed(2)} / 10</span>
-                          </div>
+                          {team.score !== null ? (
+                            <div>
+                              <span className="block text-slate-500 uppercase tracking-wide">Score</span>
+                              <span className="font-mono text-sm text-slate-200">{formatScore(team.score)}</span>
+                            </div>
+                          ) : (
+                            <div>
+                              <span className="block text-slate-500 uppercase tracking-wide">Points</span>
+                              <span className="font-mono text-sm text-slate-200">{team.points.toFixed(2)} / 10</span>
+                            </div>
+                          )}
                           <div>
                             <span className="block text-slate-500 uppercase tracking-wide">Fix Remaining</span>
                             <span className="font-mono text-sm text-white">{numberFormatter.format(team.fixRemaining)}</span>
@@ -1443,7 +1459,16 @@ export const MultiUserApp: React.FC = () => {
                             </div>
                             <div className="text-xs text-slate-300 uppercase tracking-wide">Revenue</div>
                           </div>
-                          {currentRoundPoints !== null && (
+                          {typeof currentTeamRound.score === 'number' ? (
+                            <div className="text-center p-4 bg-gradient-to-br from-slate-600/20 to-slate-700/20 rounded-xl border border-slate-600/40">
+                              <div className="text-3xl font-bold text-purple-300 tabular-nums">
+                                {formatScore(currentTeamRound.score)}
+                              </div>
+                              <div className="text-xs text-slate-300 uppercase tracking-wide">
+                                Score{currentTeamRound.eligible === false && ' (not eligible)'}
+                              </div>
+                            </div>
+                          ) : currentRoundPoints !== null && (
                             <div className="text-center p-4 bg-gradient-to-br from-slate-600/20 to-slate-700/20 rounded-xl border border-slate-600/40">
                               <div className="text-3xl font-bold text-purple-300 tabular-nums">
                                 {currentRoundPoints.toFixed(2)}
@@ -1452,6 +1477,9 @@ export const MultiUserApp: React.FC = () => {
                             </div>
                           )}
                         </div>
+                        {currentTeamRound.score_breakdown && (
+                          <ScoreBreakdown components={currentTeamRound.score_breakdown} className="mt-3" />
+                        )}
                         {currentTeamRank && (
                           <div className="mt-4 text-sm text-slate-300 text-center">
                             You placed #{currentTeamRank}{totalTeams ? ` of ${totalTeams}` : ''} this round.
@@ -1647,7 +1675,7 @@ export const MultiUserApp: React.FC = () => {
                         </div>
                         {topRoundResults.length > 0 && (
                           <div className="pt-2">
-                            <div className="text-xs text-slate-400 uppercase tracking-wide mb-2">Round profit leaders</div>
+                            <div className="text-xs text-slate-400 uppercase tracking-wide mb-2">{roundHasScores ? 'Round leaders' : 'Round profit leaders'}</div>
                             <div className="space-y-2">
                               {topRoundResults.map((result, index) => (
                                 <div
@@ -1665,7 +1693,9 @@ export const MultiUserApp: React.FC = () => {
                                   <div className="text-right">
                                     <div className="text-sm font-semibold tabular-nums">€{Math.round(result.profit ?? 0).toLocaleString('de-DE')}</div>
                                     <div className="text-xs text-slate-400">
-                                      {result.sold ?? 0} seats · {(result.points ?? 0).toFixed(2)} pts
+                                      {result.sold ?? 0} seats · {typeof result.score === 'number'
+                                        ? `score ${formatScore(result.score)}`
+                                        : `${(result.points ?? 0).toFixed(2)} pts`}
                                     </div>
                                   </div>
                                 </div>
@@ -1872,6 +1902,20 @@ export const MultiUserApp: React.FC = () => {
                         <p className="text-xs text-slate-400">
                           Changes apply immediately for new bookings. Keep an eye on the pooling price trend to react ahead of the market.
                         </p>
+                        <ToolPanel
+                          tools={gameState.tools ?? []}
+                          selected={currentTeam?.decisions?.tool ?? 'none'}
+                          disabled={!currentTeam}
+                          onSelect={(tool) => updateTeamDecision({ tool })}
+                        />
+                        <SeatMarketPanel
+                          book={seatMarket?.book ?? null}
+                          trades={seatMarket?.trades ?? []}
+                          teamNames={Object.fromEntries(gameState.teams.map((team) => [team.id, team.name]))}
+                          disabled={!currentTeam}
+                          onPlace={placeSeatOrder}
+                          onCancel={cancelSeatOrders}
+                        />
                       </CardContent>
                     </Card>
                     <Card className="lg:col-span-7 bg-slate-800/70 border-slate-600">
@@ -5,7 +5,12 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { defaultConfig } from '@/lib/simulation/defaultConfig';
 import { runAuction, initRuntime, runTick, finalize } from '@/lib/simulation/engine';
-import type { AuctionBid, Decision, FinalReport } from '@/lib/simulation/types';
+import { STRATEGY_NAMES, buildStrategyView, createStrategy, isStrategyName, strategyRng } from '@/lib/simulation/strategies';
+import type { StrategyName } from '@/lib/simulation/strategies';
+import type { AuctionBid, Decision, FinalReport, MarketSnapshot } from '@/lib/simulation/types';
+import ScoreBreakdown, { compareByScore, formatScore } from './ScoreBreakdown';
+import ShareCockpit from './ShareCockpit';
+import type { ExplainedTick } from './ShareCockpit';
 
 interface PracticeModeProps {
   onClose: () => void;
@@ -15,6 +20,7 @@ interface PracticeModeProps {
 type PracticeSummary = {
   report: FinalReport[];
   auction: ReturnType<typeof runAuction>;
+  explained: ExplainedTick[];
 };
 
 const euroFormatter = new Intl.NumberFormat('de-DE', {
@@ -23,25 +29,18 @@ const euroFormatter = new Intl.NumberFormat('de-DE', {
   maximumFractionDigits: 0,
 });
 
-const aiBid = (teamId: string, basePrice: number): AuctionBid => ({
-  teamId,
-  bid_price_per_seat: basePrice,
-  bid_quantity: 60,
-});
+const botLabel = (name: StrategyName) => name.replace(/_/g, ' ').replace(/\b\w/g, (letter) => letter.toUpperCase());
 
-const aiDecision = (teamId: string, progress: number, runtimePrice: number): Decision => ({
-  teamId,
-  price: Math.max(99, Math.round(runtimePrice * (1 - 0.12 * progress))),
-  push_level: 0,
-  fix_hold_pct: 0,
-  tool: 'none',
-});
+// The classic practice opponents bid slightly different prices so the auction is not a tie.
+const OPPONENT_BID_PRICES = [148, 142];
 
 export function PracticeMode({ onClose, humanTeamName }: PracticeModeProps) {
   const [initialPrice, setInitialPrice] = useState('');
   const [bidPrice, setBidPrice] = useState('');
   const [bidQuantity, setBidQuantity] = useState('');
+  const [opponentBot, setOpponentBot] = useState<StrategyName>('markdown');
   const [summary, setSummary] = useState<PracticeSummary | null>(null);
+  const [cockpitTick, setCockpitTick] = useState(0);
   const [running, setRunning] = useState(false);
 
   const config = useMemo(() => {
@@ -115,6 +114,7 @@ export function PracticeMode({ onClose, humanTeamName }: PracticeModeProps) {
       market: {
         ...configWithRoute.market,
         D_base: scaledCurve,
+        explain: true,
       },
     };
   }, [humanTeamName]);
@@ -138,19 +138,25 @@ export function PracticeMode({ onClose, humanTeamName }: PracticeModeProps) {
 
     const bidQuantityInt = Math.max(1, Math.floor(parsedBidQuantity));
     setRunning(true);
+    const opponents = config.teams.slice(1).map((team, index) => ({
+      teamId: team.id,
+      strategy: createStrategy(opponentBot, opponentBot === 'markdown' ? { bid_price: OPPONENT_BID_PRICES[index] ?? 145 } : {}),
+      rng: strategyRng(config, team.id),
+    }));
     const bids: AuctionBid[] = [
       {
         teamId: config.teams[0].id,
         bid_price_per_seat: Math.max(50, parsedBidPrice),
         bid_quantity: bidQuantityInt,
       },
-      aiBid(config.teams[1].id, 148),
-      aiBid(config.teams[2].id, 142),
+      ...opponents.map(({ teamId, strategy, rng }) => strategy.bid({ teamId, config, rng })),
     ];
 
     const auction = runAuction(config, bids);
     const runtime = initRuntime(config, auction);
     const totalSteps = Math.max(1, config.ticks_total);
+    let lastSnapshot: MarketSnapshot | null = null;
+    const explained: ExplainedTick[] = [];
 
     for (let step = totalSteps; step >= 1; step -= 1) {
       const progress = (totalSteps - step) / totalSteps;
@@ -162,15 +168,19 @@ export function PracticeMode({ onClose, humanTeamName }: PracticeModeProps) {
           fix_hold_pct: 0,
           tool: 'none',
         },
-        aiDecision(config.teams[1].id, progress, config.teams[1].P_start),
-        aiDecision(config.teams[2].id, progress, config.teams[2].P_start),
+        ...opponents.map(({ teamId, strategy, rng }) => strategy.decide(
+          buildStrategyView(config, runtime, teamId, lastSnapshot, rng),
+        )),
       ];
 
-      runTick(config, runtime, decisions);
+      const { snapshot, results } = runTick(config, runtime, decisions);
+      lastSnapshot = snapshot;
+      if (results.explain) explained.push({ tick: snapshot.tick, explain: results.explain });
     }
 
     const report = finalize(config, runtime);
-    setSummary({ report, auction });
+    setSummary({ report, auction, explained });
+    setCockpitTick(Math.max(0, explained.length - 1));
     setRunning(false);
   };
 
@@ -179,26 +189,7 @@ export function PracticeMode({ onClose, humanTeamName }: PracticeModeProps) {
     && parsePositiveNumber(bidPrice) !== null
     && parsePositiveNumber(bidQuantity) !== null;
 
-  const revenueStats = summary ? (() => {
-    const revenues = summary.report.map(team => team.total_revenue ?? 0);
-    const maxRevenue = revenues.length > 0 ? Math.max(...revenues) : 0;
-    const minRevenue = revenues.length > 0 ? Math.min(...revenues) : 0;
-    return {
-      maxRevenue,
-      minRevenue,
-      range: Math.max(1, maxRevenue - minRevenue)
-    };
-  })() : null;
-
-  const computePoints = (revenue: number) => {
-    if (!revenueStats) return 0;
-    const { maxRevenue, minRevenue, range } = revenueStats;
-    if (maxRevenue === minRevenue) {
-      return maxRevenue > 0 ? 10 : 0;
-    }
-    const normalized = (revenue - minRevenue) / range;
-    return Math.max(0, Math.min(10, Number((normalized * 10).toFixed(2))));
-  };
+  const standings = summary ? [...summary.report].sort(compareByScore) : [];
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 p-4 backdrop-blur-sm">
@@ -247,6 +238,20 @@ export function PracticeMode({ onClose, humanTeamName }: PracticeModeProps) {
                   />
                 </div>
               </div>
+              <div>
+                <Label className="text-slate-300">Opponent Bot</Label>
+                <select
+                  value={opponentBot}
+                  onChange={(event) => {
+                    if (isStrategyName(event.target.value)) setOpponentBot(event.target.value);
+                  }}
+                  className="mt-1 w-full rounded-md bg-slate-800 border border-slate-700 text-white px-3 py-2 text-sm"
+                >
+                  {STRATEGY_NAMES.map((name) => (
+                    <option key={name} value={name}>{botLabel(name)}</option>
+                  ))}
+                </select>
+              </div>
               <div className="flex gap-3">
                 <Button onClick={startSimulation} disabled={!canStartSimulation} className="bg-indigo-500 hover:bg-indigo-600 disabled:opacity-50">
                   {running ? 'Running…' : 'Start Simulation'}
@@ -278,7 +283,7 @@ export function PracticeMode({ onClose, humanTeamName }: PracticeModeProps) {
                 <div className="text-sm text-slate-400 uppercase tracking-wide">Phase 2</div>
                 <div className="text-lg font-semibold">Final Report</div>
                 <div className="mt-3 grid grid-cols-1 md:grid-cols-3 gap-3">
-                  {summary.report.map((team) => (
+                  {standings.map((team) => (
                     <div key={team.teamId} className={`rounded-lg border ${team.winner ? 'border-emerald-400' : 'border-slate-700'} bg-slate-800/70 p-3`}>
                       <div className="flex items-center justify-between text-sm text-slate-400">
                         <span>Team {team.teamId}</span>
@@ -291,12 +296,33 @@ export function PracticeMode({ onClose, humanTeamName }: PracticeModeProps) {
                       <div className="mt-1 text-xs text-slate-500">Profit: €{Math.round(team.profit)}</div>
                       <div className="mt-1 text-xs text-slate-500">Avg sell: €{team.avg_sell_price.toFixed(0)}</div>
                       <div className="mt-1 text-xs text-slate-500">Avg buy: €{team.avg_buy_price.toFixed(0)}</div>
-                      <div className="mt-2 text-xs text-slate-200 font-semibold">Points: {computePoints(team.total_revenue).toFixed(2)} / 10</div>
+                      <div className="mt-1 text-xs text-slate-500">
+                        Spill: {team.spill_total} &nbsp;|&nbsp; Spoiled: {team.spoiled_fixed} (€{Math.round(team.spoilage_cost)})
+                      </div>
+                      <div className="mt-2 text-xs text-slate-200 font-semibold">
+                        Score: {formatScore(team.score)}{!team.eligible && <span className="ml-1 font-normal text-rose-300">(not eligible)</span>}
+                      </div>
+                      <ScoreBreakdown components={team.score_breakdown} className="mt-1" />
                     </div>
                   ))}
                 </div>
               </div>
 
+              {summary.explained.length > 0 && (
+                <div>
+                  <div className="text-sm text-slate-400 uppercase tracking-wide">Cockpit</div>
+                  <div className="text-lg font-semibold">Market Share Breakdown</div>
+                  <div className="mt-3 rounded-lg border border-slate-700 bg-slate-800/70 p-3">
+                    <ShareCockpit
+                      ticks={summary.explained}
+                      selected={cockpitTick}
+                      onSelect={setCockpitTick}
+                      teamId={config.teams[0].id}
+                    />
+                  </div>
+                </div>
+              )}
+
               <div className="flex gap-3">
                 <Button onClick={() => setSummary(null)} className="bg-indigo-500 hover:bg-indigo-600">Run Again</Button>
                 <Button variant="outline" onClick={onClose} className="border-slate-600 text-slate-200">Finish</Button>
@@ -0,0 +1,29 @@
+import type { ScoreComponent, ScoringKpi } from '@/lib/simulation/types';
+
+const kpiLabel = (kpi: ScoringKpi) => kpi.replace(/_/g, ' ');
+
+export const formatScore = (score: number) => (Math.abs(score) >= 100 ? Math.round(score).toLocaleString('de-DE') : score.toFixed(2));
+
+// Standings follow the configured scoring: winner first, then by score.
+export const compareByScore = (a: { winner?: boolean; score?: number }, b: { winner?: boolean; score?: number }) =>
+  Number(b.winner ?? false) - Number(a.winner ?? false) || (b.score ?? 0) - (a.score ?? 0);
+
+interface ScoreBreakdownProps {
+  components: ScoreComponent[];
+  className?: string;
+}
+
+// Weighted KPI contributions behind a score; nothing to break down when a single KPI decides.
+export default function ScoreBreakdown({ components, className = '' }: ScoreBreakdownProps) {
+  if (components.length <= 1) return null;
+  return (
+    <ul className={`space-y-0.5 text-xs text-slate-500 ${className}`}>
+      {components.map((component) => (
+        <li key={component.kpi} className="flex justify-between tabular-nums">
+          <span>{kpiLabel(component.kpi)} ×{component.weight}</span>
+          <span>{formatScore(component.contribution)}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
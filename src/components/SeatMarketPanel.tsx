@@ -0,0 +1,92 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import type { SeatBookDepth, SeatOrderRequest, SeatOrderSide, SeatTrade } from "@/lib/simulation/types";
+
+interface SeatMarketPanelProps {
+  book: SeatBookDepth | null;
+  trades: SeatTrade[];
+  teamNames: Record<string, string>;
+  disabled?: boolean;
+  onPlace: (order: SeatOrderRequest) => void;
+  onCancel: () => void;
+}
+
+const DEPTH_LEVELS = 5;
+
+// Live order book for trading fixed seats with other teams; trades fill at the resting order's price.
+export default function SeatMarketPanel({ book, trades, teamNames, disabled, onPlace, onCancel }: SeatMarketPanelProps) {
+  const [side, setSide] = useState<SeatOrderSide>("bid");
+  const [quantity, setQuantity] = useState(1);
+  const [price, setPrice] = useState(100);
+  const bids = book?.bids.slice(0, DEPTH_LEVELS) ?? [];
+  const asks = book?.asks.slice(0, DEPTH_LEVELS) ?? [];
+  const canSubmit = !disabled && quantity > 0 && price > 0;
+
+  return (
+    <div className="space-y-3">
+      <span className="text-sm text-slate-400">Seat market</span>
+      <div className="grid grid-cols-2 gap-3 text-xs tabular-nums">
+        {([["Bids", bids, "text-emerald-300"], ["Asks", asks, "text-rose-300"]] as const).map(([label, levels, color]) => (
+          <div key={label}>
+            <div className="mb-1 text-slate-500">{label}</div>
+            {levels.length === 0 && <div className="text-slate-600">—</div>}
+            {levels.map((level) => (
+              <div key={level.price} className="flex justify-between">
+                <span className={color}>€{level.price.toLocaleString("de-DE")}</span>
+                <span className="text-slate-300">{level.quantity}</span>
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+      <div className="flex items-center gap-2">
+        {(["bid", "ask"] as const).map((option) => (
+          <Button
+            key={option}
+            type="button"
+            size="sm"
+            variant="outline"
+            onClick={() => setSide(option)}
+            className={side === option ? "border-indigo-400 bg-indigo-500/20 text-white" : "border-slate-600 text-slate-300"}
+          >
+            {option === "bid" ? "Buy" : "Sell"}
+          </Button>
+        ))}
+        <Input
+          type="number"
+          min={1}
+          value={quantity}
+          aria-label="Seats"
+          onChange={(event) => setQuantity(Math.max(0, Math.floor(Number(event.target.value) || 0)))}
+          className="w-20 border-slate-600 bg-slate-900/60 text-white"
+        />
+        <Input
+          type="number"
+          min={1}
+          value={price}
+          aria-label="Price per seat"
+          onChange={(event) => setPrice(Math.max(0, Math.round(Number(event.target.value) || 0)))}
+          className="w-24 border-slate-600 bg-slate-900/60 text-white"
+        />
+      </div>
+      <div className="flex gap-2">
+        <Button type="button" size="sm" disabled={!canSubmit} onClick={() => onPlace({ side, quantity, price })}>
+          Post order
+        </Button>
+        <Button type="button" size="sm" variant="outline" disabled={disabled} onClick={onCancel} className="border-slate-600 text-slate-300">
+          Cancel my orders
+        </Button>
+      </div>
+      {trades.length > 0 && (
+        <ul className="space-y-1 text-xs text-slate-400">
+          {trades.slice(-3).reverse().map((trade, idx) => (
+            <li key={`${trade.buyer}-${trade.seller}-${trade.tick}-${idx}`}>
+              {teamNames[trade.seller] ?? trade.seller} → {teamNames[trade.buyer] ?? trade.buyer}: {trade.quantity} × €{trade.price.toLocaleString("de-DE")}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+import { Slider } from "@/components/ui/slider";
+import type { ShareExplanation, TeamId } from "@/lib/simulation/types";
+
+export interface ExplainedTick {
+  tick: number;
+  explain: ShareExplanation[];
+}
+
+interface ShareCockpitProps {
+  ticks: ExplainedTick[];
+  selected: number;            // index into ticks
+  onSelect: (index: number) => void;
+  teamId?: TeamId;             // highlighted row
+}
+
+const factor = (value: number) => `×${value.toFixed(2)}`;
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+// Team cockpit: per tick, how price gap, push, tools, collusion and loyalty turned into each team's share.
+export default function ShareCockpit({ ticks, selected, onSelect, teamId }: ShareCockpitProps) {
+  const entry = ticks[selected];
+  if (!entry) return null;
+  const showLoyalty = entry.explain.some((row) => Math.abs(row.loyalty_factor - 1) > 1e-9);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between text-sm text-slate-400">
+        <span>Why the sales went where they did</span>
+        <span className="tabular-nums">{entry.tick} {entry.tick === 1 ? "tick" : "ticks"} to departure</span>
+      </div>
+      {ticks.length > 1 && (
+        <Slider
+          value={[selected]}
+          min={0}
+          max={ticks.length - 1}
+          step={1}
+          onValueChange={(values) => onSelect(values[0] ?? selected)}
+        />
+      )}
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs tabular-nums">
+          <thead className="text-slate-500">
+            <tr>
+              <th className="py-1 text-left font-normal">Team</th>
+              <th className="py-1 text-right font-normal">Price</th>
+              <th className="py-1 text-right font-normal">Gap</th>
+              <th className="py-1 text-right font-normal">Price</th>
+              <th className="py-1 text-right font-normal">Push</th>
+              <th className="py-1 text-right font-normal">Tools</th>
+              <th className="py-1 text-right font-normal">Collusion</th>
+              {showLoyalty && <th className="py-1 text-right font-normal">Loyalty</th>}
+              <th className="py-1 text-right font-normal">Weight</th>
+              <th className="py-1 text-right font-normal">Share</th>
+            </tr>
+          </thead>
+          <tbody>
+            {entry.explain.map((row) => (
+              <tr key={row.teamId} className={row.teamId === teamId ? "text-white font-semibold" : "text-slate-300"}>
+                <td className="py-1">{row.teamId}</td>
+                <td className="py-1 text-right">€{row.price.toLocaleString("de-DE")}</td>
+                <td className="py-1 text-right">{percent(row.price_gap)}</td>
+                <td className="py-1 text-right">{factor(row.price_factor)}</td>
+                <td className="py-1 text-right">{factor(row.push_factor)}</td>
+                <td className="py-1 text-right">{factor(row.tool_factor)}</td>
+                <td className={`py-1 text-right ${row.collusion_penalty < 1 ? "text-rose-300" : ""}`}>{factor(row.collusion_penalty)}</td>
+                {showLoyalty && <td className="py-1 text-right">{factor(row.loyalty_factor)}</td>}
+                <td className="py-1 text-right">{row.weight.toFixed(3)}</td>
+                <td className="py-1 text-right">{percent(row.expected_share)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+import { Button } from "@/components/ui/button";
+import type { ToolChoice, ToolDefinition } from "@/lib/simulation/types";
+
+interface ToolPanelProps {
+  tools: ToolDefinition[];
+  selected: ToolChoice;
+  disabled?: boolean;
+  onSelect: (tool: ToolChoice) => void;
+}
+
+const formatDuration = (ticks: number) => (ticks === 1 ? "1 tick" : `${ticks} ticks`);
+
+// Renders the tools available in the current config; clicking the selected tool clears it.
+export default function ToolPanel({ tools, selected, disabled, onSelect }: ToolPanelProps) {
+  if (tools.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <span className="text-sm text-slate-400">Tools</span>
+      <div className="grid gap-2 sm:grid-cols-2">
+        {tools.map((tool) => {
+          const isSelected = selected === tool.id;
+          return (
+            <Button
+              key={tool.id}
+              type="button"
+              variant="outline"
+              disabled={disabled}
+              onClick={() => onSelect(isSelected ? "none" : tool.id)}
+              className={`h-auto flex-col items-start gap-1 whitespace-normal text-left ${
+                isSelected ? "border-indigo-400 bg-indigo-500/20 text-white" : "border-slate-600 text-slate-200"
+              }`}
+            >
+              <span className="flex w-full justify-between text-sm font-semibold">
+                <span>{tool.label ?? tool.id}</span>
+                <span className="tabular-nums">€{tool.cost.toLocaleString("de-DE")}</span>
+              </span>
+              <span className="text-xs text-slate-400">
+                {tool.description ?? `Active for ${formatDuration(tool.duration_ticks ?? 1)}.`}
+              </span>
+            </Button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -2,10 +2,14 @@ import React, { createContext, useContext, useState, useEffect, useCallback } fr
 import { io, Socket } from 'socket.io-client';
 import { resolveServerUrl } from '@/lib/env';
 import { defaultConfig } from '@/lib/simulation/defaultConfig';
+import { createStrategy, openingMoves } from '@/lib/simulation/strategies';
+import type { StrategyName } from '@/lib/simulation/strategies';
+import type { Config, ScoreComponent, SeatBookDepth, SeatOrderRequest, SeatTrade, ToolChoice, ToolDefinition } from '@/lib/simulation/types';
 
 const MIN_PROFIT_LIMIT = -20000;
 const MS_PER_DAY = 24 * 60 * 60 * 1000;
 const SESSION_REFRESH_INTERVAL_MS = 5000;
+const PRACTICE_BOTS: StrategyName[] = ['undercutter', 'yield_manager', 'hold_then_dump', 'cost_plus'];
 
 function buildPracticeDemandSchedule(options: {
   horizonDays: number;
@@ -111,7 +115,7 @@ interface Team {
     // Agent v1 live controls (preview)
     push_level?: 0 | 1 | 2;
     fix_hold_pct?: number;
-    tool?: 'none' | 'hedge' | 'spotlight' | 'commit';
+    tool?: ToolChoice;
   };
   totalProfit: number;
   sessionId?: string | null;
@@ -170,6 +174,8 @@ interface GameState {
   };
   // Budget
   perTeamBudget?: number; // fixed budget per team for the round (both phases)
+  // Tools the live session offers (its settings.tools, else the config defaults)
+  tools?: ToolDefinition[];
   // Round timer
   remainingTime?: number;
   // Simulation: remaining days until departure
@@ -213,6 +219,10 @@ interface RoundResult {
   profit: number;
   unsold: number;
   insolvent?: boolean;
+  eligible?: boolean;                 // engine rounds: scoring eligibility, score and winner
+  score?: number;
+  score_breakdown?: ScoreComponent[];
+  winner?: boolean;
 }
 
 interface AllocationSummary {
@@ -232,6 +242,8 @@ interface AllocationSummary {
   maxFixCapacity: number;
   poolingReserveCapacity: number;
   minimumBidPrice?: number;
+  auctionMechanism?: 'pay_as_bid' | 'uniform_price' | 'vickrey';
+  marketClearingPrice?: number;
 }
 
 type RoundEndedPayload = {
@@ -274,6 +286,7 @@ interface GameContextType {
   sessions: SessionSummary[];
   currentSessionId: string | null;
   selectSession: (sessionId: string) => void;
+  seatMarket: { book: SeatBookDepth; trades: SeatTrade[] } | null;
 
   // Tutorial state
   tutorialActive: boolean;
@@ -293,7 +306,7 @@ interface GameContextType {
   loginAsAdmin: (password: string) => void;
   logoutAsAdmin: () => void;
   updateGameSettings: (settings: Partial<GameState>) => void;
-  updateTeamDecision: (decision: { price?: number; buy?: Record<string, number>; fixSeatsPurchased?: number; poolingAllocation?: number; fixSeatBidPrice?: number; push_level?: 0 | 1 | 2; fix_hold_pct?: number; tool?: 'none' | 'hedge' | 'spotlight' | 'commit'; phaseOneConfirmed?: boolean }) => void;
+  updateTeamDecision: (decision: { price?: number; buy?: Record<string, number>; fixSeatsPurchased?: number; poolingAllocation?: number; fixSeatBidPrice?: number; push_level?: 0 | 1 | 2; fix_hold_pct?: number; tool?: ToolChoice; phaseOneConfirmed?: boolean }) => void;
   startPracticeMode: (config?: { rounds?: number; aiCount?: number; overridePrice?: number }) => void;
   stopPracticeMode: () => void;
   startPrePurchasePhase: () => void;
@@ -306,6 +319,8 @@ interface GameContextType {
   logoutTeam: () => void;
   confirmPhaseOne: () => void;
   deleteAllSessions: () => void;
+  placeSeatOrder: (order: SeatOrderRequest) => void;
+  cancelSeatOrders: () => void;
 }
 
 const GameContext = createContext<GameContextType | null>(null);
@@ -386,6 +401,7 @@ export const GameProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const [adminLoginError, setAdminLoginError] = useState<string | null>(null);
   const [allocationSummary, setAllocationSummary] = useState<AllocationSummary | null>(null);
   const [lastError, setLastError] = useState<string | null>(null);
+  const [seatMarket, setSeatMarket] = useState<{ book: SeatBookDepth; trades: SeatTrade[] } | null>(null);
   const [practice, setPractice] = useState<
     | { running: true; rounds: number; aiCount: number }
     | { running: false; results?: any }
@@ -875,6 +891,14 @@ export const GameProvider: React.FC<{ children: React.ReactNode }> = ({ children
       setLeaderboard(board);
     });
 
+    // Secondary market for fixed seats: latest book plus a rolling list of recent trades
+    newSocket.on('seatMarket:update', (update: { book: SeatBookDepth; trades: SeatTrade[] }) => {
+      setSeatMarket(prev => ({
+        book: update.book,
+        trades: [...(prev?.trades ?? []), ...(update.trades ?? [])].slice(-20)
+      }));
+    });
+
     // Practice mode events
     newSocket.on('practiceResults', (payload: any) => {
       setPractice({ running: false, results: payload });
@@ -1091,7 +1115,7 @@ export const GameProvider: React.FC<{ children: React.ReactNode }> = ({ children
     socket?.emit('updateGameSettings', { ...settings, sessionId });
   };
 
-  const updateTeamDecision = (decision: { price?: number; buy?: Record<string, number>; fixSeatsPurchased?: number; poolingAllocation?: number; fixSeatBidPrice?: number; push_level?: 0 | 1 | 2; fix_hold_pct?: number; tool?: 'none' | 'hedge' | 'spotlight' | 'commit' }) => {
+  const updateTeamDecision = (decision: { price?: number; buy?: Record<string, number>; fixSeatsPurchased?: number; poolingAllocation?: number; fixSeatBidPrice?: number; push_level?: 0 | 1 | 2; fix_hold_pct?: number; tool?: ToolChoice }) => {
     // Handle in-practice locally
     if (practice?.running) {
       // Local update only
@@ -1262,20 +1286,41 @@ export const GameProvider: React.FC<{ children: React.ReactNode }> = ({ children
       },
       totalProfit: 0
     };
-    const aiTeams: Team[] = Array.from({ length: aiCount }).map((_, i) => ({
-      id: `AI_${i + 1}`,
-      name: `AI Team ${i + 1}`,
-      decisions: {
-        price: irnd(180, 280),
-        buy: {},
-        fixSeatsPurchased: irnd(10, 120),
-        fixSeatsRequested: irnd(10, 120),
-        fixSeatBidPrice: irnd(50, 120),
-        fixSeatClearingPrice: null,
-        poolingAllocation: irnd(10, 80)
+    // AI teams are driven by the bundled bots; their bids and opening prices are quoted
+    // against the randomized pool price so they scale with the route.
+    const poolingStartPrice = irnd(100, 220);
+    const aiIds = Array.from({ length: aiCount }, (_, i) => `AI_${i + 1}`);
+    const botConfig: Config = {
+      ...defaultConfig,
+      rng_seed: irnd(1, 1_000_000),
+      airline: {
+        ...defaultConfig.airline,
+        C_total: Math.max(1, Math.floor(totalAircraftSeats * fixSeatShare)),
+        P_min: airlinePriceMin,
+        P_max: airlinePriceMax,
+        P_airline_start: poolingStartPrice,
       },
-      totalProfit: 0
-    }));
+      market: { ...defaultConfig.market, P_ref: poolingStartPrice },
+      teams: [myId, ...aiIds].map((id) => ({ id, P_start: poolingStartPrice, P_floor: airlinePriceMin, P_ceil: airlinePriceMax })),
+    };
+    const aiTeams: Team[] = aiIds.map((id, i) => {
+      const bot = createStrategy(PRACTICE_BOTS[i % PRACTICE_BOTS.length]);
+      const { bid, decision } = openingMoves(bot, botConfig, id);
+      return {
+        id,
+        name: `AI Team ${i + 1}`,
+        decisions: {
+          price: decision.price,
+          buy: {},
+          fixSeatsPurchased: bid.bid_quantity,
+          fixSeatsRequested: bid.bid_quantity,
+          fixSeatBidPrice: bid.bid_price_per_seat,
+          fixSeatClearingPrice: null,
+          poolingAllocation: irnd(10, 80)
+        },
+        totalProfit: 0
+      };
+    });
 
     const practiceState: GameState = {
       ...gameState,
@@ -1307,7 +1352,7 @@ export const GameProvider: React.FC<{ children: React.ReactNode }> = ({ children
   simulatedDaysUntilDeparture: Math.ceil((departureDate.getTime() - Date.now()) / (24 * 60 * 60 * 1000)),
   poolingReserveCapacity: Math.floor(totalAircraftSeats * (1 - fixSeatShare)),
   poolingMarket: {
-        currentPrice: irnd(100, 220),
+        currentPrice: poolingStartPrice,
         totalPoolingCapacity: Math.floor(totalAircraftSeats * (1 - fixSeatShare)),
         availablePoolingCapacity: Math.floor(totalAircraftSeats * (1 - fixSeatShare)),
         offeredPoolingCapacity: 0,
@@ -1985,6 +2030,30 @@ export const GameProvider: React.FC<{ children: React.ReactNode }> = ({ children
     });
   }, [socket, refreshSessions, selectSession]);
 
+  const placeSeatOrder = useCallback((order: SeatOrderRequest) => {
+    if (!socket) {
+      setLastError('Not connected.');
+      return;
+    }
+    socket.emit('seatMarket:order', order, (response?: { ok?: boolean; error?: string }) => {
+      if (response?.ok === false && response.error) {
+        setLastError(response.error);
+      }
+    });
+  }, [socket]);
+
+  const cancelSeatOrders = useCallback(() => {
+    if (!socket) {
+      setLastError('Not connected.');
+      return;
+    }
+    socket.emit('seatMarket:cancel', {}, (response?: { ok?: boolean; error?: string }) => {
+      if (response?.ok === false && response.error) {
+        setLastError(response.error);
+      }
+    });
+  }, [socket]);
+
   // Tutorial functions
   const startTutorial = useCallback(() => {
     console.log('Starting tutorial');
@@ -2052,6 +2121,7 @@ export const GameProvider: React.FC<{ children: React.ReactNode }> = ({ children
     sessions,
     currentSessionId,
     selectSession,
+    seatMarket,
     tutorialActive,
     tutorialStep,
     startTutorial,
@@ -2079,6 +2149,8 @@ export const GameProvider: React.FC<{ children: React.ReactNode }> = ({ children
     resetCurrentGame,
     confirmPhaseOne,
     deleteAllSessions,
+    placeSeatOrder,
+    cancelSeatOrders,
     logoutTeam
   };
 
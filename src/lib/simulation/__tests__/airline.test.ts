@@ -0,0 +1,97 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  emsrBPrice,
+  emsrBProtectionLevels,
+  fareLadderPrice,
+  pressurePrice,
+  scriptedPrice,
+} from '@/lib/simulation/airline';
+import { initRuntime, runAuction, runTick } from '@/lib/simulation/engine';
+import type { Config, Decision, FareClass } from '@/lib/simulation/types';
+
+describe('airline revenue-management policies', () => {
+  const baseConfig = (): Config => ({
+    ticks_total: 4,
+    seconds_per_tick: 60,
+    rng_seed: 5,
+    airline: { C_total: 100, P_airline_start: 120, P_min: 80, P_max: 400, gamma: 0.15, kappa: 50 },
+    market: { D_base: [10, 20, 30, 40], alpha: 1.1, beta: 6, P_ref: 150 },
+    teams: [{ id: 'A', P_start: 200, P_floor: 99, P_ceil: 500 }],
+    rules: {
+      need_price_above_cost: true,
+      push_cost_per_level: [0, 200, 600],
+      tool_cooldown_ticks: 3,
+      price_jump_threshold: 0,
+      anti_collusion_band_pct: 0,
+    },
+  });
+  const freshRuntime = (config: Config) => initRuntime(config, runAuction(config, []));
+
+  it('pressure: moves toward P_max when sales run ahead of forecast', () => {
+    const config = baseConfig();
+    const runtime = freshRuntime(config);
+    runtime.tick = 3;
+    runtime.forecastCum[1] = 30;
+
+    runtime.soldCum[1] = 30;
+    expect(pressurePrice(config, runtime)).toBe(120);
+    runtime.soldCum[1] = 80;
+    const up = pressurePrice(config, runtime);
+    expect(up).toBeGreaterThan(120);
+    expect(up).toBeLessThan(120 + (400 - 120) * 0.15);
+  });
+
+  it('emsr_b: protects seats for higher fares and opens lower classes with spare capacity', () => {
+    const fareClasses: FareClass[] = [
+      { price: 100, share: 0.5 },
+      { price: 300, share: 0.2, cv: 0.3 },
+      { price: 200, share: 0.3 },
+    ];
+    const [y1, y2] = emsrBProtectionLevels(fareClasses, 100);
+    expect(y1).toBeCloseTo(17.42, 1);
+    expect(y2).toBeCloseTo(52.28, 1);
+
+    const config = baseConfig();
+    const runtime = freshRuntime(config);
+    runtime.C_remain = 100;
+    expect(emsrBPrice(config, runtime, fareClasses)).toBe(100);
+    runtime.C_remain = 30;
+    expect(emsrBPrice(config, runtime, fareClasses)).toBe(200);
+    runtime.C_remain = 10;
+    expect(emsrBPrice(config, runtime, fareClasses)).toBe(300);
+  });
+
+  it('fare_ladder: steps up with the share of seats sold', () => {
+    const config = baseConfig();
+    const runtime = freshRuntime(config);
+    const steps = [{ load_factor: 0.8, price: 220 }, { load_factor: 0, price: 90 }, { load_factor: 0.5, price: 150 }];
+
+    expect(fareLadderPrice(config, runtime, steps)).toBe(90);
+    runtime.C_remain = 40;
+    expect(fareLadderPrice(config, runtime, steps)).toBe(150);
+    runtime.C_remain = 10;
+    expect(fareLadderPrice(config, runtime, steps)).toBe(220);
+  });
+
+  it('script: follows the configured path and holds the last price', () => {
+    const config = baseConfig();
+    const runtime = freshRuntime(config);
+    const prices = [100, 110, 130];
+
+    expect(scriptedPrice(config, runtime, prices)).toBe(100);
+    runtime.tick = 2;
+    expect(scriptedPrice(config, runtime, prices)).toBe(130);
+    runtime.tick = 1;
+    expect(scriptedPrice(config, runtime, prices)).toBe(130);
+  });
+
+  it('selects the policy from the config and clamps to the airline price band', () => {
+    const config: Config = { ...baseConfig(), airline: { ...baseConfig().airline, policy: { type: 'script', prices: [95, 500] } } };
+    const runtime = freshRuntime(config);
+    expect(runtime.P_airline).toBe(95);
+
+    const decisions: Decision[] = [{ teamId: 'A', price: 200, push_level: 0, fix_hold_pct: 0, tool: 'none' }];
+    runTick(config, runtime, decisions);
+    expect(runtime.P_airline).toBe(400);
+  });
+});
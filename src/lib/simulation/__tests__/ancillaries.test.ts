@@ -0,0 +1,94 @@
+import { describe, expect, it } from '@jest/globals';
+import { quoteAncillaries } from '@/lib/simulation/ancillaries';
+import { finalize, initRuntime, runAuction, runTick } from '@/lib/simulation/engine';
+import type { Config, Decision } from '@/lib/simulation/types';
+
+describe('ancillary revenue', () => {
+  const baseConfig = (): Config => ({
+    ticks_total: 4,
+    seconds_per_tick: 60,
+    rng_seed: 11,
+    airline: { C_total: 80, P_airline_start: 120, P_min: 80, P_max: 400, gamma: 0.15, kappa: 50 },
+    market: { D_base: [10, 12, 14, 16], alpha: 1.1, beta: 6, P_ref: 150 },
+    teams: [
+      { id: 'A', P_start: 90, P_floor: 50, P_ceil: 500 },
+      { id: 'B', P_start: 160, P_floor: 50, P_ceil: 500 },
+    ],
+    rules: {
+      need_price_above_cost: true,
+      push_cost_per_level: [0, 200, 600],
+      tool_cooldown_ticks: 3,
+      price_jump_threshold: 0,
+      anti_collusion_band_pct: 0,
+    },
+    ancillaries: [{ id: 'bags', list_price: 50, unit_cost: 10, attach_rate: 0.5 }],
+    debug: { invariants: true },
+  });
+  const decide = (teamId: string, price: number, extra: Partial<Decision> = {}): Decision => ({
+    teamId, price, push_level: 0, fix_hold_pct: 0, tool: 'none', ...extra,
+  });
+
+  it('lifts the attach rate below P_ref and trades it for margin above list price', () => {
+    const config = baseConfig();
+    expect(quoteAncillaries(config, decide('A', 150), 150)).toEqual({ revenue: 25, cost: 5 });
+    // 40% below P_ref: attach 0.5 * 1.4
+    const cheap = quoteAncillaries(config, decide('A', 90), 150);
+    expect(cheap.revenue).toBeCloseTo(35);
+    expect(cheap.cost).toBeCloseTo(7);
+    const pricey = quoteAncillaries(config, decide('A', 150, { ancillary_prices: { bags: 100 } }), 150);
+    expect(pricey.revenue).toBeCloseTo(0.5 * Math.exp(-1) * 100);
+    expect(quoteAncillaries({ ...config, ancillaries: undefined }, decide('A', 90), 150)).toEqual({ revenue: 0, cost: 0 });
+    expect(() => quoteAncillaries(config, decide('A', 90, { ancillary_prices: { meals: 12 } }), 150)).toThrow('Unknown ancillary: meals');
+  });
+
+  it.each(['per_customer', 'multinomial'] as const)('applies the team\'s ancillary prices in a %s tick', (allocation) => {
+    const play = (extra: Partial<Decision>) => {
+      const config = { ...baseConfig(), market: { ...baseConfig().market, allocation } };
+      const runtime = initRuntime(config, runAuction(config, [{ teamId: 'A', bid_price_per_seat: 100, bid_quantity: 30 }]));
+      runTick(config, runtime, [decide('A', 150, extra), decide('B', 160)]);
+      return runtime.team.A;
+    };
+
+    const list = play({});
+    const premium = play({ ancillary_prices: { bags: 100 } });
+    expect(premium.sales_fix + premium.sales_pool).toBe(list.sales_fix + list.sales_pool);
+    expect(list.sales_fix + list.sales_pool).toBeGreaterThan(0);
+    // Doubling the list price: attach 0.5 * e^-1 at 100 instead of 0.5 at 50
+    expect(list.ancillary_revenue).toBeCloseTo(25 * (list.sales_fix + list.sales_pool));
+    expect(premium.ancillary_revenue).toBeCloseTo(100 * 0.5 * Math.exp(-1) * (premium.sales_fix + premium.sales_pool));
+    // A price for an extra the config no longer sells is dropped, not an error
+    const stale = play({ ancillary_prices: { bags: 100, meals: 12 } });
+    expect(stale.ancillary_revenue).toBeCloseTo(premium.ancillary_revenue);
+  });
+
+  it('splits ticket from ancillary revenue and lets a loss-leader fare stay eligible', () => {
+    const play = (config: Config) => {
+      const runtime = initRuntime(config, runAuction(config, [
+        { teamId: 'A', bid_price_per_seat: 100, bid_quantity: 30 },
+        { teamId: 'B', bid_price_per_seat: 100, bid_quantity: 10 },
+      ]));
+      const days = [4, 3, 2, 1].map(() => runTick(config, runtime, [decide('A', 90), decide('B', 160)]).results);
+      return { runtime, days, reports: finalize(config, runtime) };
+    };
+
+    const { runtime, days, reports } = play(baseConfig());
+    const a = reports.find((report) => report.teamId === 'A')!;
+    expect(a.sold_total).toBeGreaterThan(0);
+    expect(a.ticket_revenue).toBe(90 * a.sold_total);
+    expect(a.ancillary_revenue).toBeCloseTo(35 * a.sold_total);
+    expect(a.total_revenue).toBeCloseTo(a.ticket_revenue + a.ancillary_revenue);
+    expect(a.ancillary_cost).toBeCloseTo(7 * a.sold_total);
+    expect(runtime.team.A.ancillary_revenue).toBeCloseTo(a.ancillary_revenue);
+    const soldByA = days.flatMap((day) => day.sales.filter((sale) => sale.teamId === 'A'));
+    expect(soldByA.reduce((sum, sale) => sum + sale.ancillary_revenue, 0)).toBeCloseTo(a.ancillary_revenue);
+    expect(runtime.team.A.cash_ledger.reduce((sum, entry) => sum + entry.ancillary_costs, 0)).toBeCloseTo(a.ancillary_cost);
+
+    // Fares of 90 on seats bought at 100 only pass the cost rule thanks to 28 of margin on bags
+    expect(a.avg_sell_price).toBeLessThan(a.avg_buy_price);
+    expect(a.eligible).toBe(true);
+    const withoutExtras = play({ ...baseConfig(), ancillaries: undefined }).reports.find((report) => report.teamId === 'A')!;
+    expect(withoutExtras.eligible).toBe(false);
+    expect(withoutExtras.ancillary_revenue).toBe(0);
+    expect(a.profit).toBeGreaterThan(withoutExtras.profit);
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, expect, it } from '@jest/globals';
+import { clearAuction } from '@/lib/simulation/auction';
+import type { AuctionBid } from '@/lib/simulation/types';
+
+describe('fixed-seat auction mechanisms', () => {
+  const bids: AuctionBid[] = [
+    { teamId: 'C', bid_price_per_seat: 100, bid_quantity: 60 },
+    { teamId: 'A', bid_price_per_seat: 200, bid_quantity: 60 },
+    { teamId: 'B', bid_price_per_seat: 150, bid_quantity: 60 },
+  ];
+  const byTeam = (result: ReturnType<typeof clearAuction>) => Object.fromEntries(
+    result.allocations.map((allocation) => [allocation.teamId, allocation]),
+  );
+
+  it('charges each winner its own bid under pay-as-bid', () => {
+    const result = clearAuction(bids, { capacity: 100, mechanism: 'pay_as_bid' });
+    const allocations = byTeam(result);
+
+    expect(allocations.A).toMatchObject({ awarded_fixed: 60, avg_fixed_cost: 200, fixed_costs_total: 12000 });
+    expect(allocations.B).toMatchObject({ awarded_fixed: 40, avg_fixed_cost: 150, fixed_costs_total: 6000 });
+    expect(allocations.C.awarded_fixed).toBe(0);
+    expect(result.clearing_price).toBe(150);
+    expect(result.marginal_bids).toEqual({ A: 200, B: 150, C: 0 });
+  });
+
+  it('charges every winner the clearing price under uniform pricing', () => {
+    const result = clearAuction(bids, { capacity: 100, mechanism: 'uniform_price' });
+    const allocations = byTeam(result);
+
+    expect(allocations.A.avg_fixed_cost).toBe(150);
+    expect(allocations.B.avg_fixed_cost).toBe(150);
+    expect(result.airline_capacity_used).toBe(100);
+  });
+
+  it('charges the displaced bids under Vickrey pricing', () => {
+    const result = clearAuction(bids, { capacity: 100, mechanism: 'vickrey' });
+    const allocations = byTeam(result);
+
+    // Without A, B gains 20 seats at 150 and C gains 40 seats at 100.
+    expect(allocations.A.fixed_costs_total).toBe(7000);
+    // Without B, C gains 40 seats at 100.
+    expect(allocations.B.fixed_costs_total).toBe(4000);
+    expect(allocations.B.avg_fixed_cost).toBe(100);
+  });
+
+  it('rejects bids below the reserve price and splits tied tiers proportionally', () => {
+    const result = clearAuction([
+      { teamId: 'low', bid_price_per_seat: 70, bid_quantity: 50 },
+      { teamId: 'x', bid_price_per_seat: 120, bid_quantity: 30 },
+      { teamId: 'y', bid_price_per_seat: 120, bid_quantity: 60 },
+    ], { capacity: 45, reserve_price: 80 });
+    const allocations = byTeam(result);
+
+    expect(allocations.low.awarded_fixed).toBe(0);
+    expect(allocations.x.awarded_fixed).toBe(15);
+    expect(allocations.y.awarded_fixed).toBe(30);
+  });
+});
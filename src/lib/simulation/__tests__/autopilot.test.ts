@@ -0,0 +1,65 @@
+import { describe, expect, it } from '@jest/globals';
+import { autopilotDecision, parseAutopilot } from '@/lib/simulation/autopilot';
+import { initRuntime, runAuction, runTick } from '@/lib/simulation/engine';
+import { buildStrategyView, strategyRng } from '@/lib/simulation/strategies';
+import type { Config, Decision } from '@/lib/simulation/types';
+
+describe('pricing autopilot', () => {
+  const config: Config = {
+    ticks_total: 6,
+    seconds_per_tick: 60,
+    rng_seed: 9,
+    airline: { C_total: 40, P_airline_start: 120, P_min: 80, P_max: 400, gamma: 0.15, kappa: 50 },
+    market: { D_base: [4, 5, 6, 8, 10, 12], alpha: 1.1, beta: 6, P_ref: 150 },
+    teams: [
+      { id: 'A', P_start: 150, P_floor: 50, P_ceil: 300 },
+      { id: 'B', P_start: 130, P_floor: 50, P_ceil: 300 },
+    ],
+    rules: {
+      need_price_above_cost: false,
+      push_cost_per_level: [0, 200, 600],
+      tool_cooldown_ticks: 3,
+      price_jump_threshold: 0,
+      anti_collusion_band_pct: 0,
+    },
+  };
+  const decide = (teamId: string, price: number): Decision => ({ teamId, price, push_level: 0, fix_hold_pct: 0, tool: 'none' });
+  const lesson = parseAutopilot([
+    { when: { left: 'C_remain', cmp: '<', right: 30 }, then: { adjust_price_pct: 5 } },
+    { then: { set_price: { sub: ['cheapest_competitor', 2] }, min_price: 'avg_fixed_cost' } },
+    { when: { left: 'tick', cmp: '<=', right: 3 }, then: { push_level: 2 } },
+  ]);
+
+  it('rejects malformed rules with the path of the first problem', () => {
+    expect(() => parseAutopilot({ then: {} })).toThrow('Autopilot rules: expected a list of rules');
+    expect(() => parseAutopilot([{ then: { set_price: 'rival' } }])).toThrow('Autopilot rules[0].then.set_price: unknown variable "rival"');
+    expect(() => parseAutopilot([{ then: { push_level: 1 } }, { when: { left: 'tick', cmp: '=<', right: 3 }, then: { push_level: 2 } }]))
+      .toThrow('Autopilot rules[1].when.cmp: expected one of < <= > >= ==');
+    expect(() => parseAutopilot([{ then: { set_price: { pow: [2, 3] } } }])).toThrow('Autopilot rules[0].then.set_price: expected one of');
+    expect(() => parseAutopilot([{ then: { fix_hold_pct: 150 } }])).toThrow('expected a number from 0 to 100');
+    expect(() => parseAutopilot([{ then: {} }])).toThrow('Autopilot rules[0].then: action is empty');
+    expect(() => parseAutopilot([{ when: { all: [] }, then: { push_level: 0 } }])).toThrow('needs at least one condition');
+  });
+
+  it('evaluates the rules in order over the team state and the last snapshot', () => {
+    const runtime = initRuntime(config, runAuction(config, [{ teamId: 'A', bid_price_per_seat: 90, bid_quantity: 10 }]));
+    const view = (snapshot: Parameters<typeof buildStrategyView>[3]) =>
+      buildStrategyView(config, runtime, 'A', snapshot, strategyRng(config, 'A'));
+
+    // Without a snapshot nothing is known about rivals: hold the current price
+    expect(autopilotDecision(lesson, view(null))).toEqual(decide('A', 150));
+
+    const { snapshot } = runTick(config, runtime, [decide('A', 150), decide('B', 130)]);
+    expect(snapshot.C_remain).toBeLessThan(30);
+    expect(autopilotDecision(lesson, view(snapshot)).price).toBe(128);
+    // Never below the fixed seats' cost
+    const dearSeats = { ...snapshot, price_board: snapshot.price_board.map((entry) => ({ ...entry, price: 60 })) };
+    expect(autopilotDecision(lesson, view(dearSeats)).price).toBe(90);
+
+    while (runtime.tick > 3) runTick(config, runtime, [decide('A', 150), decide('B', 130)]);
+    const late = autopilotDecision(lesson, view(snapshot));
+    expect(late.push_level).toBe(2);
+    // Rules stay within the team's price bounds
+    expect(autopilotDecision(parseAutopilot([{ then: { set_price: { mul: ['price', 10] } } }]), view(snapshot)).price).toBe(300);
+  });
+});
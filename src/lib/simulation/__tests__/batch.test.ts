@@ -0,0 +1,63 @@
+import { describe, expect, it } from '@jest/globals';
+import { runBatch, summarize } from '@/lib/simulation/batch';
+import type { Strategy } from '@/lib/simulation/strategies';
+import type { Config } from '@/lib/simulation/types';
+
+describe('Monte Carlo batch runner', () => {
+  const config: Config = {
+    ticks_total: 6,
+    seconds_per_tick: 60,
+    rng_seed: 100,
+    airline: { C_total: 150, P_airline_start: 120, P_min: 80, P_max: 400, gamma: 0.15, kappa: 50 },
+    market: { D_base: [10, 14, 18, 24, 30, 40], alpha: 1.1, beta: 6, P_ref: 150, demand_noise: { mode: 'poisson' } },
+    teams: [
+      { id: 'cheap', P_start: 140, P_floor: 99, P_ceil: 500 },
+      { id: 'premium', P_start: 220, P_floor: 99, P_ceil: 500 },
+    ],
+    rules: {
+      need_price_above_cost: true,
+      push_cost_per_level: [0, 200, 600],
+      tool_cooldown_ticks: 3,
+      price_jump_threshold: 0.1,
+      anti_collusion_band_pct: 0,
+    },
+  };
+  const fixedPrice = (price: number, seats: number): Strategy => ({
+    name: 'cost_plus',
+    bid: ({ teamId }) => ({ teamId, bid_price_per_seat: 110, bid_quantity: seats }),
+    decide: ({ team }) => ({ teamId: team.teamId, price, push_level: 0, fix_hold_pct: 0, tool: 'none' }),
+  });
+  const strategies = { cheap: fixedPrice(140, 40), premium: fixedPrice(220, 20) };
+
+  it('summarises profit, load factor and win rate per team across seeds', () => {
+    const result = runBatch(config, { strategies, runs: 25 });
+
+    expect(result.seeds).toHaveLength(25);
+    expect(result.seeds[0]).toBe(100);
+    const winRates = result.teams.reduce((sum, team) => sum + team.win_rate, 0);
+    expect(winRates).toBeCloseTo(1);
+    for (const team of result.teams) {
+      expect(team.profit.min).toBeLessThanOrEqual(team.profit.p10);
+      expect(team.profit.p10).toBeLessThanOrEqual(team.profit.p50);
+      expect(team.profit.p50).toBeLessThanOrEqual(team.profit.p90);
+      expect(team.profit.p90).toBeLessThanOrEqual(team.profit.max);
+    }
+    const cheap = result.teams.find((team) => team.teamId === 'cheap');
+    expect(cheap?.profit.std).toBeGreaterThan(0);
+    expect(runBatch(config, { strategies, seeds: result.seeds })).toEqual(result);
+  });
+
+  it('fails fast when a team has no strategy', () => {
+    expect(() => runBatch(config, { strategies: { cheap: strategies.cheap }, runs: 1 })).toThrow('Missing strategy for team: premium');
+  });
+
+  it('accepts bundled bots by name', () => {
+    const result = runBatch(config, { strategies: { cheap: 'undercutter', premium: 'yield_manager' }, runs: 3 });
+    expect(result.teams.map((team) => team.teamId)).toEqual(['cheap', 'premium']);
+    expect(runBatch(config, { strategies: { cheap: 'undercutter', premium: 'yield_manager' }, runs: 3 })).toEqual(result);
+  });
+
+  it('interpolates percentiles', () => {
+    expect(summarize([4, 1, 3, 2])).toMatchObject({ mean: 2.5, min: 1, p50: 2.5, max: 4 });
+  });
+});
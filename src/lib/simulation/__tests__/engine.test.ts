@@ -1,9 +1,18 @@
 import { describe, expect, it } from '@jest/globals';
-import { runAuction, initRuntime, runTick, finalize, airlineReprice } from '@/lib/simulation/engine';
-import type { AuctionBid, Decision } from '@/lib/simulation/types';
+import {
+  runAuction,
+  initRuntime,
+  runTick,
+  finalize,
+  airlineReprice,
+  serializeRuntime,
+  deserializeRuntime,
+  spillTotal,
+} from '@/lib/simulation/engine';
+import type { AuctionBid, Config, Decision } from '@/lib/simulation/types';
 
 describe('Agent v1 simulation engine', () => {
-  const cloneConfig = () => ({
+  const cloneConfig = (): Config => ({
   ticks_total: 12,
   seconds_per_tick: 60,
   rng_seed: 42,
@@ -169,4 +178,636 @@ describe('Agent v1 simulation engine', () => {
     expect(winner).toBeDefined();
     expect(winner?.avg_sell_price).toBeGreaterThanOrEqual(winner?.avg_buy_price ?? 0);
   });
+
+  it('resumes a serialized runtime with identical later ticks', () => {
+    const config = cloneConfig();
+    const bids: AuctionBid[] = config.teams.map((team, idx) => ({
+      teamId: team.id,
+      bid_price_per_seat: 140 - idx * 10,
+      bid_quantity: 25,
+    }));
+    const decisionsAt = (tick: number): Decision[] => config.teams.map((team, idx) => ({
+      teamId: team.id,
+      price: 180 - idx * 15 + tick,
+      push_level: (tick % 3) as 0 | 1 | 2,
+      fix_hold_pct: idx * 10,
+      tool: tick === 6 ? 'spotlight' : 'none',
+    }));
+
+    const original = initRuntime(config, runAuction(config, bids));
+    for (let tick = config.ticks_total; tick > 6; tick -= 1) runTick(config, original, decisionsAt(tick));
+
+    const restored = deserializeRuntime(JSON.parse(JSON.stringify(serializeRuntime(original))));
+    for (let tick = 6; tick >= 1; tick -= 1) {
+      expect(runTick(config, restored, decisionsAt(tick))).toEqual(runTick(config, original, decisionsAt(tick)));
+    }
+    expect(finalize(config, restored)).toEqual(finalize(config, original));
+  });
+
+  it('rejects runtime snapshots with an unknown version', () => {
+    const config = cloneConfig();
+    const runtime = initRuntime(config, runAuction(config, []));
+    const snapshot = { ...serializeRuntime(runtime), version: 99 };
+
+    expect(() => deserializeRuntime(snapshot as unknown as ReturnType<typeof serializeRuntime>)).toThrow('Unsupported runtime snapshot version');
+  });
+
+  it('reports sales per customer segment with segment-specific price sensitivity', () => {
+    const config = cloneConfig();
+    config.airline.C_total = 1000;
+    config.market.D_base = Array(config.ticks_total).fill(100);
+    config.market.segments = [
+      { id: 'business', share: 0.3, alpha: 0.3, beta: 2, booking_curve: [0.5, 0.5, 0.5, 0.5, 1, 1, 1, 1, 2, 2, 2, 2] },
+      { id: 'leisure', share: 0.7, alpha: 2.5, beta: 8, loyalty: 0.5 },
+    ];
+    const runtime = initRuntime(config, runAuction(config, []));
+    const decisions: Decision[] = config.teams.map((team) => ({
+      teamId: team.id,
+      price: 220,
+      push_level: 0,
+      fix_hold_pct: 0,
+      tool: 'none',
+    }));
+    runtime.team.A.last_price = 220;
+    runtime.team.B.last_price = 220;
+    runtime.team.C.last_price = 220;
+
+    const { results } = runTick(config, runtime, decisions);
+    const segments = Object.fromEntries((results.segments ?? []).map((entry) => [entry.segmentId, entry]));
+
+    // Early in the booking curve business travellers are scarce but barely react to the high price.
+    expect(segments.business.demand).toBe(Math.round(100 * 0.3 * (12 / 14) * 0.5 * Math.exp(-0.3 * (70 / 150))));
+    expect(segments.leisure.demand).toBe(Math.round(100 * 0.7 * Math.exp(-2.5 * (70 / 150))));
+    expect(segments.business.sold + segments.leisure.sold).toBe(results.demand_realized);
+    const leisureSales = Object.values(segments.leisure.sales).reduce((sum, value) => sum + value, 0);
+    expect(leisureSales).toBe(segments.leisure.sold);
+    expect(runtime.team.A.segment_sales.leisure ?? 0).toBe(segments.leisure.sales.A ?? 0);
+  });
+
+  it('draws seeded Poisson demand around the expected value', () => {
+    const config = cloneConfig();
+    config.airline.C_total = 5000;
+    config.market.D_base = Array(config.ticks_total).fill(80);
+    config.market.demand_noise = { mode: 'poisson' };
+    const decisions: Decision[] = config.teams.map((team) => ({
+      teamId: team.id,
+      price: 150,
+      push_level: 0,
+      fix_hold_pct: 0,
+      tool: 'none',
+    }));
+    const play = () => {
+      const runtime = initRuntime(config, runAuction(config, []));
+      config.teams.forEach((team) => { runtime.team[team.id].last_price = 150; });
+      return Array.from({ length: config.ticks_total }, () => runTick(config, runtime, decisions).results);
+    };
+
+    const timeline = play();
+    const realized = timeline.map((results) => results.demand_realized + results.demand_lost);
+
+    expect(timeline.every((results) => results.demand_expected === 80)).toBe(true);
+    expect(new Set(realized).size).toBeGreaterThan(1);
+    expect(play().map((results) => results.demand_realized)).toEqual(timeline.map((results) => results.demand_realized));
+  });
+
+  it('applies scheduled market events and announces them in the snapshot', () => {
+    const config = cloneConfig();
+    config.market.D_base = Array(config.ticks_total).fill(20);
+    config.events = [
+      { id: 'strike', tick: 12, type: 'capacity_change', value: -30, headline: 'Crew strike grounds a rotation' },
+      { tick: 12, duration: 2, type: 'airline_price_floor', value: 200, headline: 'Airline fuel surcharge' },
+      { tick: 11, type: 'demand_multiplier', value: 2, headline: 'Festival announced at destination' },
+    ];
+    const runtime = initRuntime(config, runAuction(config, []));
+    const decisions: Decision[] = config.teams.map((team) => ({
+      teamId: team.id,
+      price: 500,
+      push_level: 0,
+      fix_hold_pct: 0,
+      tool: 'none',
+    }));
+
+    const first = runTick(config, runtime, decisions);
+    expect(first.snapshot.events.map((event) => event.headline)).toEqual([
+      'Crew strike grounds a rotation',
+      'Airline fuel surcharge',
+    ]);
+    expect(first.snapshot.P_airline).toBe(200);
+    expect(first.results.C_remain_after).toBe(config.airline.C_total - 30 - first.results.demand_realized);
+
+    const second = runTick(config, runtime, decisions);
+    expect(second.snapshot.events.map((event) => event.headline)).toEqual(['Festival announced at destination']);
+    expect(second.snapshot.P_airline).toBeGreaterThanOrEqual(200);
+    expect(second.results.demand_expected).toBeCloseTo(first.results.demand_expected * 2);
+
+    const third = runTick(config, runtime, decisions);
+    expect(third.snapshot.events).toEqual([]);
+    expect(third.results.demand_expected).toBeCloseTo(first.results.demand_expected);
+  });
+
+  it('locks the pool purchase price while a hedge tool is active', () => {
+    const config: Config = {
+      ...cloneConfig(),
+      tools: [{ id: 'hedge', cost: 50, duration_ticks: 2, mechanic: 'lock_pool_price' }],
+    };
+    const runtime = initRuntime(config, runAuction(config, []));
+    const decisions = (tool: string): Decision[] => [
+      { teamId: 'A', price: 100, push_level: 2, fix_hold_pct: 0, tool },
+      { teamId: 'B', price: 150, push_level: 0, fix_hold_pct: 0, tool: 'none' },
+      { teamId: 'C', price: 160, push_level: 0, fix_hold_pct: 0, tool: 'none' },
+    ];
+    const poolCostOfA = (results: { sales: { teamId: string; sold_pool: number; cost: number }[] }) => {
+      const sale = results.sales.find((entry) => entry.teamId === 'A')!;
+      expect(sale.sold_pool).toBeGreaterThan(0);
+      return sale.cost / sale.sold_pool;
+    };
+
+    const costBefore = runtime.team.A.cost;
+    expect(poolCostOfA(runTick(config, runtime, decisions('hedge')).results)).toBe(120);
+    expect(runtime.team.A.cost - costBefore).toBeGreaterThan(50);
+
+    runtime.P_airline = 250;
+    expect(poolCostOfA(runTick(config, runtime, decisions('none')).results)).toBe(120);
+    expect(runtime.team.A.active_tools).toEqual([]);
+
+    runtime.P_airline = 250;
+    expect(poolCostOfA(runTick(config, runtime, decisions('none')).results)).toBe(250);
+    expect(() => runTick(config, runtime, decisions('spotlight'))).toThrow('Unknown tool: spotlight');
+  });
+
+  it('reserves pool seats for a committed team and releases the rest on expiry', () => {
+    const config: Config = {
+      ...cloneConfig(),
+      tools: [{ id: 'commit', cost: 0, duration_ticks: 2, mechanic: 'reserve_pool_seats', seats: 5 }],
+    };
+    const runtime = initRuntime(config, runAuction(config, []));
+    runtime.C_remain = 5;
+    const decisions = (tool: string): Decision[] => [
+      { teamId: 'A', price: 200, push_level: 0, fix_hold_pct: 0, tool },
+      { teamId: 'B', price: 100, push_level: 0, fix_hold_pct: 0, tool: 'none' },
+      { teamId: 'C', price: 100, push_level: 0, fix_hold_pct: 0, tool: 'none' },
+    ];
+
+    const first = runTick(config, runtime, decisions('commit'));
+    expect(first.snapshot.C_remain).toBe(0);
+    runTick(config, runtime, decisions('none'));
+
+    const soldByA = runtime.team.A.sales_pool;
+    expect(soldByA).toBeLessThanOrEqual(5);
+    expect(runtime.team.B.sales_pool + runtime.team.C.sales_pool).toBe(0);
+    expect(runtime.team.A.active_tools).toEqual([]);
+    expect(runtime.C_remain).toBe(5 - soldByA);
+  });
+
+  it('blocks spending beyond the credit line and flags insolvency', () => {
+    const base = cloneConfig();
+    const config: Config = {
+      ...base,
+      teams: base.teams.map((team) => ({ ...team, P_start: team.id === 'A' ? 99 : 200 })),
+      tools: [{ id: 'spotlight', cost: 400, attention: 1.25 }],
+      budget: { starting_cash: 250, credit_line: 50, interest_rate: 0.1, insolvency_threshold: -40 },
+    };
+    const runtime = initRuntime(config, runAuction(config, []));
+    const decisions = (tool: string, push_level: 0 | 1): Decision[] => [
+      { teamId: 'A', price: 99, push_level, fix_hold_pct: 0, tool },
+      { teamId: 'B', price: 200, push_level: 0, fix_hold_pct: 0, tool: 'none' },
+      { teamId: 'C', price: 200, push_level: 0, fix_hold_pct: 0, tool: 'none' },
+    ];
+
+    runtime.P_airline = 300;
+    const first = runTick(config, runtime, decisions('spotlight', 0));
+    expect(runtime.team.A.active_tools).toEqual([]);
+    expect(runtime.team.A.sales_pool).toBe(1);
+    expect(runtime.team.A.cash).toBe(250 + 99 - 300);
+    expect(first.snapshot.standings.find((entry) => entry.teamId === 'A')).toMatchObject({ cash: 49, insolvent: false });
+    expect(first.results.demand_lost).toBeGreaterThan(0);
+
+    runtime.P_airline = 300;
+    const second = runTick(config, runtime, decisions('none', 1));
+    expect(runtime.team.A.sales_pool).toBe(1);
+    expect(runtime.team.A.cash_ledger[1]).toMatchObject({ opening: 49, push: 200, sales: 0 });
+    expect(runtime.team.A.cash_ledger[1].interest).toBeCloseTo(15.1);
+    expect(runtime.team.A.cash).toBeCloseTo(-166.1);
+    expect(second.snapshot.standings.find((entry) => entry.teamId === 'A')?.insolvent).toBe(true);
+
+    const report = finalize(config, runtime).find((entry) => entry.teamId === 'A');
+    expect(report).toMatchObject({ insolvent: true, winner: false });
+    expect(report?.cash).toBeCloseTo(-166.1);
+  });
+
+  it('charges fixed seats once and each pool seat once, so profit equals the cash earned', () => {
+    const config = cloneConfig();
+    config.rules.price_jump_threshold = 0;
+    config.rules.anti_collusion_band_pct = 0;
+    const runtime = initRuntime(config, runAuction(config, [{ teamId: 'A', bid_price_per_seat: 80, bid_quantity: 10 }]));
+    runTick(config, runtime, [
+      { teamId: 'A', price: 150, push_level: 0, fix_hold_pct: 0, tool: 'none' },
+      { teamId: 'B', price: 130, push_level: 0, fix_hold_pct: 0, tool: 'none' },
+      { teamId: 'C', price: 135, push_level: 0, fix_hold_pct: 0, tool: 'none' },
+    ]);
+    expect(runtime.team.B.sales_pool + runtime.team.C.sales_pool).toBeGreaterThan(0);
+    expect(runtime.team.A.cost).toBe(800);
+
+    // Without a budget cash starts at zero
+    for (const report of finalize(config, runtime)) {
+      expect(report.profit).toBeCloseTo(runtime.team[report.teamId].cash, 6);
+    }
+  });
+
+  it('reconciles revenue minus cost with the cash ledger', () => {
+    const config: Config = { ...cloneConfig(), budget: { starting_cash: 5000, credit_line: 100000, interest_rate: 0.01 } };
+    const runtime = initRuntime(config, runAuction(config, [{ teamId: 'A', bid_price_per_seat: 90, bid_quantity: 20 }]));
+    while (runtime.tick > 0) {
+      runTick(config, runtime, [
+        { teamId: 'A', price: 140, push_level: runtime.tick % 3 === 0 ? 1 : 0, fix_hold_pct: 0, tool: 'none' },
+        { teamId: 'B', price: 150, push_level: 0, fix_hold_pct: 0, tool: 'none' },
+        { teamId: 'C', price: 130, push_level: 0, fix_hold_pct: 0, tool: 'none' },
+      ]);
+    }
+
+    for (const report of finalize(config, runtime)) {
+      const ledger = runtime.team[report.teamId].cash_ledger;
+      expect(runtime.team[report.teamId].sales_pool).toBeGreaterThan(0);
+      expect(report.profit).toBeCloseTo(ledger[ledger.length - 1].closing - 5000, 6);
+      const flows = ledger.reduce((sum, entry) => sum + entry.sales - entry.pool_purchases - entry.ancillary_costs
+        - entry.push - entry.tools + entry.releases + entry.seat_trades - entry.interest, 0);
+      expect(flows).toBeCloseTo(ledger[ledger.length - 1].closing - ledger[0].opening, 6);
+    }
+  });
+
+  it('refunds released fixed seats according to the release terms', () => {
+    const base = cloneConfig();
+    const config: Config = {
+      ...base,
+      rules: {
+        ...base.rules,
+        release: [
+          { until_tick: 6, refund_pct: 50, penalty_per_seat: 5 },
+          { until_tick: 10, refund_pct: 100 },
+        ],
+      },
+    };
+    const runtime = initRuntime(config, runAuction(config, [{ teamId: 'A', bid_price_per_seat: 100, bid_quantity: 40 }]));
+    const decisions = (release_fixed: number): Decision[] => [
+      { teamId: 'A', price: 500, push_level: 0, fix_hold_pct: 100, tool: 'none', release_fixed },
+      { teamId: 'B', price: 500, push_level: 0, fix_hold_pct: 0, tool: 'none' },
+      { teamId: 'C', price: 500, push_level: 0, fix_hold_pct: 0, tool: 'none' },
+    ];
+
+    const poolBefore = runtime.C_remain;
+    const first = runTick(config, runtime, decisions(10));
+    const poolSold = first.results.sales.reduce((sum, entry) => sum + entry.sold_pool, 0);
+    expect(first.results.C_remain_after).toBe(poolBefore + 10 - poolSold);
+    expect(runtime.team.A.fixed_left).toBe(30);
+    expect(runtime.team.A.cash_ledger[0].releases).toBe(1000);
+
+    for (let tick = 11; tick > 8; tick -= 1) runTick(config, runtime, decisions(0));
+    runTick(config, runtime, decisions(10));      // tick 8: 50% refund minus 5 per seat
+    for (let tick = 7; tick > 5; tick -= 1) runTick(config, runtime, decisions(0));
+    runTick(config, runtime, decisions(10));      // tick 5: past every release deadline
+
+    expect(runtime.team.A.fixed_left).toBe(20);
+    expect(finalize(config, runtime).find((entry) => entry.teamId === 'A')).toMatchObject({
+      released_fixed: 20,
+      release_recovered: 1000 + 10 * 100 * 0.5 - 10 * 5,
+    });
+  });
+
+  it('trades fixed seats between teams on the secondary market', () => {
+    const config = cloneConfig();
+    const runtime = initRuntime(config, runAuction(config, [{ teamId: 'A', bid_price_per_seat: 100, bid_quantity: 30 }]));
+    const decisions: Decision[] = [
+      { teamId: 'A', price: 500, push_level: 0, fix_hold_pct: 100, tool: 'none', seat_orders: [{ side: 'ask', quantity: 10, price: 120 }] },
+      { teamId: 'B', price: 500, push_level: 0, fix_hold_pct: 100, tool: 'none', seat_orders: [{ side: 'bid', quantity: 15, price: 130 }] },
+      { teamId: 'C', price: 500, push_level: 0, fix_hold_pct: 0, tool: 'none' },
+    ];
+
+    const { snapshot, results } = runTick(config, runtime, decisions);
+
+    expect(results.seat_trades).toEqual([{ tick: 12, buyer: 'B', seller: 'A', quantity: 10, price: 120 }]);
+    expect(snapshot.seat_trades).toEqual(results.seat_trades);
+    expect(snapshot.seat_book).toEqual({ bids: [{ price: 130, quantity: 5 }], asks: [] });
+    expect(runtime.team.A.fixed_left).toBe(20);
+    expect(runtime.team.B).toMatchObject({ fixed_left: 10, avg_fixed_cost: 120 });
+    expect(runtime.team.B.cash_ledger[0].seat_trades).toBe(-1200);
+    expect(runtime.team.A.cash_ledger[0].seat_trades).toBe(1200);
+
+    const next = runTick(config, runtime, decisions.map((decision) => ({ ...decision, seat_orders: [], cancel_seat_orders: true })));
+    expect(next.snapshot.seat_book).toEqual({ bids: [], asks: [] });
+  });
+
+  it('fills seat bids only as far as the buyer\'s credit line reaches', () => {
+    const config = cloneConfig();
+    config.budget = { starting_cash: 500, credit_line: 100 };
+    const runtime = initRuntime(config, runAuction(config, [{ teamId: 'A', bid_price_per_seat: 10, bid_quantity: 30 }]));
+    const decisions: Decision[] = [
+      { teamId: 'A', price: 500, push_level: 0, fix_hold_pct: 100, tool: 'none', seat_orders: [{ side: 'ask', quantity: 10, price: 120 }] },
+      { teamId: 'B', price: 500, push_level: 0, fix_hold_pct: 100, tool: 'none', seat_orders: [{ side: 'bid', quantity: 10, price: 130 }] },
+      { teamId: 'C', price: 500, push_level: 0, fix_hold_pct: 0, tool: 'none' },
+    ];
+
+    const { snapshot, results } = runTick(config, runtime, decisions);
+
+    // 500 cash plus 100 credit pays for five seats at 120; the rest of the bid keeps resting
+    expect(results.seat_trades).toEqual([{ tick: 12, buyer: 'B', seller: 'A', quantity: 5, price: 120 }]);
+    expect(snapshot.seat_book).toEqual({ bids: [{ price: 130, quantity: 5 }], asks: [{ price: 120, quantity: 5 }] });
+    expect(runtime.team.B.cash).toBeGreaterThanOrEqual(-100);
+  });
+  it('explains each team\'s expected share when market.explain is set', () => {
+    const config = cloneConfig();
+    config.rules.price_jump_threshold = 0;
+    const runtime = initRuntime(config, runAuction(config, []));
+    const decisions: Decision[] = [
+      { teamId: 'A', price: 100, push_level: 0, fix_hold_pct: 0, tool: 'none' },
+      { teamId: 'B', price: 150, push_level: 2, fix_hold_pct: 0, tool: 'none' },
+      { teamId: 'C', price: 150, push_level: 0, fix_hold_pct: 0, tool: 'none' },
+    ];
+    expect(runTick(config, runtime, decisions).results.explain).toBeUndefined();
+
+    config.market.explain = true;
+    const { results } = runTick(config, runtime, decisions);
+    runTick(config, runtime, decisions);
+    const explain = results.explain!;
+    const [a, b] = explain;
+
+    expect(a).toMatchObject({ teamId: 'A', price_gap: 0, price_factor: 1, push_factor: 1, collusion_penalty: 1, weight: 1 });
+    expect(b.price_gap).toBeCloseTo(1);
+    expect(b.price_factor).toBeCloseTo(Math.exp(-6));
+    expect(b.weight).toBeCloseTo(Math.exp(-6) * 1.2);
+    expect(explain.reduce((sum, entry) => sum + entry.expected_share, 0)).toBeCloseTo(1);
+    expect(a.expected_share).toBeCloseTo(1 / (1 + Math.exp(-6) * 2.2));
+
+    const third = runTick(config, runtime, decisions).results.explain!;
+    expect(third.map((entry) => entry.collusion_penalty)).toEqual([1, 0.9, 0.9]);
+    expect(third[2].weight).toBeCloseTo(Math.exp(-6) * 0.9);
+  });
+  it('attributes lost demand to its causes and reports spill and spoilage', () => {
+    const config = cloneConfig();
+    config.rules.price_jump_threshold = 0;
+    config.rules.anti_collusion_band_pct = 0;
+    config.airline.C_total = 20;
+    config.market.D_base = Array(config.ticks_total).fill(200);
+    const bids: AuctionBid[] = [{ teamId: 'A', bid_price_per_seat: 100, bid_quantity: 10 }];
+    const decisions: Decision[] = ['A', 'B', 'C'].map((teamId) => (
+      { teamId, price: 200, push_level: 0, fix_hold_pct: teamId === 'A' ? 50 : 0, tool: 'none' }
+    ));
+
+    const runtime = initRuntime(config, runAuction(config, bids));
+    const { results } = runTick(config, runtime, decisions);
+    const lost = Object.fromEntries(results.lost_demand.map((entry) => [entry.teamId, entry]));
+    const turnedAway = results.lost_demand
+      .reduce((sum, entry) => sum + spillTotal(entry), 0);
+    expect(turnedAway).toBe(results.demand_lost);
+    expect(lost.A.held_back).toBeGreaterThan(0);
+    expect(lost.A.pool_exhausted).toBe(0);
+    expect(lost.B).toMatchObject({ held_back: 0, no_fixed_quota: 0 });
+    expect(lost.B.pool_exhausted).toBeGreaterThan(0);
+    const suppressed = results.lost_demand.reduce((sum, entry) => sum + entry.price_suppressed, 0);
+    expect(suppressed).toBeCloseTo(200 - results.demand_expected);
+    expect(lost.A.price_suppressed).toBeCloseTo(suppressed / 3);
+
+    const [reportA] = finalize(config, runtime);
+    expect(reportA.spill).toEqual({ held_back: lost.A.held_back, no_fixed_quota: 0, pool_exhausted: 0, credit_limit: 0, price_suppressed: lost.A.price_suppressed });
+    expect(reportA.spill_total).toBe(lost.A.held_back);
+    expect(reportA).toMatchObject({ spoiled_fixed: 5, spoilage_cost: 500 });
+
+    // Without cash the pool still has seats, but buying them would break the credit line
+    config.budget = { starting_cash: 0 };
+    for (const allocation of ['per_customer', 'multinomial'] as const) {
+      const broke: Config = { ...config, market: { ...config.market, allocation } };
+      const brokeRuntime = initRuntime(broke, runAuction(broke, bids));
+      const day = runTick(broke, brokeRuntime, decisions).results;
+      const blocked = day.lost_demand.find((entry) => entry.teamId === 'B')!;
+      expect(blocked.credit_limit).toBeGreaterThan(0);
+      expect(blocked).toMatchObject({ no_fixed_quota: 0, pool_exhausted: 0 });
+      expect(day.lost_demand.reduce((sum, entry) => sum + spillTotal(entry), 0)).toBe(day.demand_lost);
+      expect(brokeRuntime.team.B.spill.credit_limit).toBe(blocked.credit_limit);
+    }
+  });
+  it('allocates sales with one multinomial draw per tick, matching per-customer results statistically', () => {
+    const config = cloneConfig();
+    config.rules.price_jump_threshold = 0;
+    config.rules.anti_collusion_band_pct = 0;
+    config.market.D_base = Array(config.ticks_total).fill(90);
+    const bids: AuctionBid[] = [
+      { teamId: 'A', bid_price_per_seat: 100, bid_quantity: 40 },
+      { teamId: 'B', bid_price_per_seat: 100, bid_quantity: 20 },
+    ];
+    const decisions: Decision[] = [
+      { teamId: 'A', price: 150, push_level: 0, fix_hold_pct: 25, tool: 'none' },
+      { teamId: 'B', price: 160, push_level: 1, fix_hold_pct: 0, tool: 'none' },
+      { teamId: 'C', price: 170, push_level: 0, fix_hold_pct: 0, tool: 'none' },
+    ];
+    const play = (allocation: 'per_customer' | 'multinomial', seed: number) => {
+      const seeded: Config = { ...config, rng_seed: seed, market: { ...config.market, allocation } };
+      const runtime = initRuntime(seeded, runAuction(seeded, bids));
+      const ticks = [1, 2, 3].map(() => runTick(seeded, runtime, decisions).results);
+      return { runtime, ticks };
+    };
+
+    const first = play('multinomial', 7);
+    expect(play('multinomial', 7).ticks).toEqual(first.ticks);
+    for (const results of first.ticks) {
+      const turnedAway = results.lost_demand
+        .reduce((sum, entry) => sum + spillTotal(entry), 0);
+      expect(results.demand_realized + turnedAway).toBe(Math.round(results.demand_expected));
+    }
+    expect(first.runtime.C_remain).toBeGreaterThanOrEqual(0);
+
+    const soldBy = (allocation: 'per_customer' | 'multinomial') => {
+      const totals: Record<string, number> = { A: 0, B: 0, C: 0 };
+      for (let seed = 1; seed <= 40; seed += 1) {
+        for (const report of finalize(config, play(allocation, seed).runtime)) totals[report.teamId] += report.sold_total;
+      }
+      return totals;
+    };
+    const perCustomer = soldBy('per_customer');
+    const multinomial = soldBy('multinomial');
+    for (const teamId of ['A', 'B', 'C']) {
+      expect(Math.abs(multinomial[teamId] - perCustomer[teamId])).toBeLessThan(0.05 * perCustomer[teamId] + 20);
+    }
+  });
+
+  it('replays timestamped arrivals and intra-tick reprices in continuous mode', () => {
+    const config = cloneConfig();
+    config.rules.price_jump_threshold = 0;
+    config.rules.anti_collusion_band_pct = 0;
+    config.market.demand_noise = { mode: 'poisson' };
+    const continuous: Config = { ...config, market: { ...config.market, arrivals: 'continuous' } };
+    const decisions: Decision[] = [
+      { teamId: 'A', price: 300, push_level: 0, fix_hold_pct: 0, tool: 'none' },
+      { teamId: 'B', price: 200, push_level: 0, fix_hold_pct: 0, tool: 'none' },
+      { teamId: 'C', price: 250, push_level: 0, fix_hold_pct: 0, tool: 'none' },
+    ];
+    const start = (seeded: Config) => initRuntime(seeded, runAuction(seeded, []));
+
+    // Without reprices the tick draws the same demand as a batch tick, now spread over the window
+    const batch = runTick(config, start(config), decisions).results;
+    const timed = runTick(continuous, start(continuous), decisions).results;
+    expect(batch.arrivals).toBeUndefined();
+    expect(timed.demand_expected).toBeCloseTo(batch.demand_expected);
+    expect(timed.arrivals).toHaveLength(batch.demand_realized + batch.demand_lost);
+    const times = timed.arrivals!.map((arrival) => arrival.at);
+    expect(times).toEqual([...times].sort((a, b) => a - b));
+    expect(times.every((at) => at >= 0 && at <= continuous.seconds_per_tick)).toBe(true);
+
+    // A undercuts halfway through: later customers see 120 and its closing price carries over
+    const runtime = start(continuous);
+    const repriced = decisions.map((decision) => (decision.teamId === 'A'
+      ? { ...decision, price_changes: [{ at: 30, price: 120 }, { at: 90, price: 100 }] }
+      : decision));
+    const results = runTick(continuous, runtime, repriced).results;
+    const sold = results.arrivals!.filter((arrival) => arrival.teamId === 'A' && arrival.outcome !== 'lost');
+    expect(sold.length).toBeGreaterThan(0);
+    for (const arrival of sold) expect(arrival.price).toBe(arrival.at < 30 ? 300 : 120);
+    expect(results.demand_expected).toBeGreaterThan(timed.demand_expected);
+    expect(runtime.team.A.revenue).toBe(sold.reduce((sum, arrival) => sum + arrival.price, 0));
+    expect(runtime.team.A.last_price).toBe(120);
+
+    const multinomial: Config = { ...continuous, market: { ...continuous.market, allocation: 'multinomial' } };
+    expect(() => runTick(multinomial, start(multinomial), decisions)).toThrow('Continuous arrivals need market.allocation per_customer');
+  });
+
+  it('holds intra-tick reprices to the price jump limit', () => {
+    const config: Config = { ...cloneConfig(), market: { ...cloneConfig().market, arrivals: 'continuous' } };
+    config.rules.anti_collusion_band_pct = 0;
+    config.market.D_base = Array(config.ticks_total).fill(60);
+    const runtime = initRuntime(config, runAuction(config, []));
+    const decisions: Decision[] = [
+      // Opens 10% below its start price of 500, then tries to crash to 100 twice within the tick
+      { teamId: 'A', price: 450, push_level: 0, fix_hold_pct: 0, tool: 'none', price_changes: [{ at: 45, price: 100 }, { at: 30, price: 100 }] },
+      { teamId: 'B', price: 450, push_level: 0, fix_hold_pct: 0, tool: 'none' },
+      { teamId: 'C', price: 450, push_level: 0, fix_hold_pct: 0, tool: 'none' },
+    ];
+
+    const results = runTick(config, runtime, decisions).results;
+    const pricesOfA = results.arrivals!.filter((arrival) => arrival.teamId === 'A').map((arrival) => [arrival.at, arrival.price]);
+    expect(pricesOfA.some(([at]) => at >= 45)).toBe(true);
+    for (const [at, price] of pricesOfA) expect(price).toBe(at < 30 ? 450 : at < 45 ? 405 : 365);
+    expect(runtime.team.A.last_price).toBe(365);
+  });
+
+  it('lets external competitors take part in customer choice and absorb demand', () => {
+    const config = cloneConfig();
+    config.rules.price_jump_threshold = 0;
+    config.rules.anti_collusion_band_pct = 0;
+    const withOtas: Config = {
+      ...config,
+      market: {
+        ...config.market,
+        external_competitors: [
+          { id: 'ota', pricing: { type: 'follow_airline', markup: 10, markup_pct: 20 } },
+          { id: 'meta', pricing: { type: 'scripted', prices: [400, 90] }, attention: 0.5 },
+        ],
+      },
+    };
+    const decisions: Decision[] = [
+      { teamId: 'A', price: 180, push_level: 0, fix_hold_pct: 0, tool: 'none' },
+      { teamId: 'B', price: 200, push_level: 0, fix_hold_pct: 0, tool: 'none' },
+      { teamId: 'C', price: 220, push_level: 0, fix_hold_pct: 0, tool: 'none' },
+    ];
+    const play = (seeded: Config) => {
+      const runtime = initRuntime(seeded, runAuction(seeded, []));
+      return [1, 2, 3].map(() => runTick(seeded, runtime, decisions));
+    };
+
+    const open = play(withOtas);
+    const [first, second] = open;
+    expect(first.snapshot.price_board).toEqual([
+      { teamId: 'A', price: 180 },
+      { teamId: 'B', price: 200 },
+      { teamId: 'C', price: 220 },
+      { teamId: 'ota', price: Math.round(config.airline.P_airline_start * 1.2 + 10), external: true },
+      { teamId: 'meta', price: 400, external: true },
+    ]);
+    // The scripted path holds its last price
+    expect(second.results.external?.find((entry) => entry.id === 'meta')?.price).toBe(90);
+    expect(open[2].results.external?.find((entry) => entry.id === 'meta')?.price).toBe(90);
+    for (const { results } of open) {
+      const absorbed = results.external!.reduce((sum, entry) => sum + entry.sold, 0);
+      const turnedAway = results.lost_demand
+        .reduce((sum, entry) => sum + spillTotal(entry), 0);
+      expect(results.demand_realized + turnedAway + absorbed).toBe(Math.round(results.demand_expected));
+      expect(results.demand_lost).toBe(turnedAway);
+    }
+    expect(second.results.external!.find((entry) => entry.id === 'meta')!.sold).toBeGreaterThan(0);
+    const closed = play(config);
+    expect(closed[0].snapshot.price_board.some((entry) => entry.external)).toBe(false);
+    expect(closed[0].results.external).toBeUndefined();
+    const teamSales = (ticks: typeof open) => ticks.reduce((sum, { results }) => sum + results.demand_realized, 0);
+    expect(teamSales(open)).toBeLessThan(teamSales(closed));
+
+    const multinomial = play({ ...withOtas, market: { ...withOtas.market, allocation: 'multinomial' } });
+    expect(multinomial.reduce((sum, { results }) => sum + results.external!.reduce((total, entry) => total + entry.sold, 0), 0))
+      .toBeGreaterThan(0);
+
+    const clash: Config = { ...config, market: { ...config.market, external_competitors: [{ id: 'A', pricing: { type: 'fixed', price: 100 } }] } };
+    expect(() => play(clash)).toThrow('External competitor id clashes with a team: A');
+  });
+
+  it('seats parties all-or-nothing and records group losses separately', () => {
+    const config = cloneConfig();
+    config.rules.price_jump_threshold = 0;
+    config.rules.anti_collusion_band_pct = 0;
+    config.airline.C_total = 30;
+    config.market.D_base = Array(config.ticks_total).fill(40);
+    config.market.party_size_distribution = [{ size: 1, share: 2 }, { size: 4, share: 1 }];
+    const bids: AuctionBid[] = [{ teamId: 'A', bid_price_per_seat: 100, bid_quantity: 6 }];
+    const decisions: Decision[] = [
+      { teamId: 'A', price: 150, push_level: 0, fix_hold_pct: 0, tool: 'none' },
+      { teamId: 'B', price: 150, push_level: 0, fix_hold_pct: 0, tool: 'none' },
+    ];
+    const timed: Config = { ...config, teams: config.teams.slice(0, 2), market: { ...config.market, arrivals: 'continuous' } };
+    const runtime = initRuntime(timed, runAuction(timed, bids));
+    const { results } = runTick(timed, runtime, decisions);
+
+    // Demand is still in seats: 40 expected seats arrive as 20 parties of two seats on average
+    const arrivals = results.arrivals!;
+    expect(arrivals).toHaveLength(20);
+    expect(arrivals.every((arrival) => [1, 4].includes(arrival.seats))).toBe(true);
+    const seated = arrivals.filter((arrival) => arrival.outcome !== 'lost');
+    expect(seated.reduce((sum, arrival) => sum + arrival.seats, 0)).toBe(results.demand_realized);
+    expect(results.demand_realized).toBeLessThanOrEqual(30);
+    expect(results.demand_realized + results.demand_lost).toBe(arrivals.reduce((sum, arrival) => sum + arrival.seats, 0));
+    expect(runtime.C_remain).toBeGreaterThanOrEqual(0);
+
+    const lostGroups = arrivals.filter((arrival) => arrival.outcome === 'lost' && arrival.seats > 1);
+    expect(lostGroups.length).toBeGreaterThan(0);
+    expect(results.group_losses).toEqual(['A', 'B'].map((teamId) => {
+      const lost = lostGroups.filter((arrival) => arrival.teamId === teamId);
+      return { teamId, parties: lost.length, seats: lost.length * 4 };
+    }));
+    // Trios never get split across the two seats that are left
+    const trios: Config = { ...config, market: { ...config.market, party_size_distribution: [{ size: 3, share: 1 }] } };
+    const tight = initRuntime(trios, runAuction(trios, []));
+    tight.C_remain = 2;
+    const squeezed = runTick(trios, tight, decisions).results;
+    expect(squeezed.demand_realized).toBe(0);
+    expect(tight.C_remain).toBe(2);
+    expect(squeezed.group_losses!.reduce((sum, entry) => sum + entry.seats, 0)).toBe(squeezed.demand_lost);
+    expect(squeezed.lost_demand.every((entry) => entry.held_back === 0 && entry.no_fixed_quota === 0)).toBe(true);
+
+    // Without a hold, a party larger than the quota plus the pool is lost to the pool, not held back
+    const quads: Config = { ...config, market: { ...config.market, party_size_distribution: [{ size: 4, share: 1 }] } };
+    const short = initRuntime(quads, runAuction(quads, [{ teamId: 'A', bid_price_per_seat: 100, bid_quantity: 2 }]));
+    short.C_remain = 1;
+    const unheld = runTick(quads, short, decisions).results;
+    expect(unheld.demand_realized).toBe(0);
+    const lostByA = unheld.lost_demand.find((entry) => entry.teamId === 'A')!;
+    expect(lostByA.held_back).toBe(0);
+    expect(lostByA.pool_exhausted).toBeGreaterThan(0);
+    expect(lostByA.pool_exhausted).toBe(unheld.group_losses!.find((entry) => entry.teamId === 'A')!.seats);
+    // With the quota held back the same party would have fit
+    const heldShort = initRuntime(quads, runAuction(quads, [{ teamId: 'A', bid_price_per_seat: 100, bid_quantity: 4 }]));
+    heldShort.C_remain = 0;
+    const held = runTick(quads, heldShort, [{ ...decisions[0], fix_hold_pct: 100 }, decisions[1]]).results;
+    expect(held.lost_demand.find((entry) => entry.teamId === 'A')!.held_back).toBeGreaterThan(0);
+
+    const multinomial: Config = { ...config, market: { ...config.market, allocation: 'multinomial' } };
+    expect(() => runTick(multinomial, initRuntime(multinomial, runAuction(multinomial, [])), decisions))
+      .toThrow('Party sizes need market.allocation per_customer');
+    const fractional: Config = { ...config, market: { ...config.market, party_size_distribution: [{ size: 2.5, share: 1 }] } };
+    expect(() => runTick(fractional, initRuntime(fractional, runAuction(fractional, [])), decisions))
+      .toThrow('Party sizes must be whole numbers of at least 1');
+  });
 });
@@ -0,0 +1,84 @@
+import { describe, expect, it } from '@jest/globals';
+import { initRuntime, runAuction, runTick } from '@/lib/simulation/engine';
+import { findInvariantViolations, InvariantViolationError } from '@/lib/simulation/invariants';
+import type { Config, Decision } from '@/lib/simulation/types';
+
+describe('invariant checker', () => {
+  const baseConfig = (): Config => ({
+    ticks_total: 6,
+    seconds_per_tick: 60,
+    rng_seed: 5,
+    airline: { C_total: 60, P_airline_start: 110, P_min: 80, P_max: 400, gamma: 0.15, kappa: 50 },
+    market: { D_base: [6, 8, 10, 14, 20, 30], alpha: 1.1, beta: 6, P_ref: 150, demand_noise: { mode: 'poisson' } },
+    teams: [
+      { id: 'A', P_start: 140, P_floor: 60, P_ceil: 500 },
+      { id: 'B', P_start: 160, P_floor: 60, P_ceil: 500 },
+    ],
+    events: [{ tick: 3, type: 'capacity_change', value: 10, headline: 'Bigger aircraft' }],
+    rules: {
+      need_price_above_cost: false,
+      push_cost_per_level: [0, 200, 600],
+      tool_cooldown_ticks: 3,
+      price_jump_threshold: 0,
+      anti_collusion_band_pct: 0,
+      release: [{ until_tick: 4, refund_pct: 80 }],
+    },
+    debug: { invariants: true },
+  });
+  const decide = (tick: number): Decision[] => [
+    { teamId: 'A', price: 140, push_level: 1, fix_hold_pct: 0, release_fixed: tick === 6 ? 2 : 0, seat_orders: tick === 6 ? [{ side: 'ask', quantity: 2, price: 85 }] : [] },
+    { teamId: 'B', price: 120 + tick * 5, push_level: 0, fix_hold_pct: 20, seat_orders: tick === 5 ? [{ side: 'bid', quantity: 2, price: 90 }] : [] },
+  ];
+  const start = (config: Config) => initRuntime(config, runAuction(config, [
+    { teamId: 'A', bid_price_per_seat: 90, bid_quantity: 15 },
+    { teamId: 'B', bid_price_per_seat: 85, bid_quantity: 10 },
+  ]));
+
+  it('passes a full run with releases, events and seat trades', () => {
+    const config = baseConfig();
+    const runtime = start(config);
+    expect(() => {
+      while (runtime.tick > 0) runTick(config, runtime, decide(runtime.tick));
+    }).not.toThrow();
+    expect(findInvariantViolations(config, runtime)).toEqual([]);
+  });
+
+  it('throws a structured error naming the tick and team', () => {
+    const config = baseConfig();
+    const runtime = start(config);
+    runTick(config, runtime, decide(6));
+    runtime.team.B.revenue += 50;
+
+    let error: unknown;
+    try {
+      runTick(config, runtime, decide(5));
+    } catch (caught) {
+      error = caught;
+    }
+    expect(error).toBeInstanceOf(InvariantViolationError);
+    const { violation } = error as InvariantViolationError;
+    expect(violation).toMatchObject({ invariant: 'revenue_matches_sales', tick: 5, teamId: 'B' });
+    expect(violation.actual - violation.expected).toBe(50);
+    expect((error as Error).message).toContain('tick 5 team B');
+  });
+
+  it('reports negative inventory, oversold capacity and shrinking cumulative sales', () => {
+    const config = baseConfig();
+    const runtime = start(config);
+    runTick(config, runtime, decide(6));
+    runTick(config, runtime, decide(5));
+    runtime.team.A.fixed_left = -1;
+    runtime.team.A.sales_pool += 100;
+    runtime.C_remain = -3;
+    runtime.soldCum[1] = runtime.soldCum[0] - 1;
+
+    expect(findInvariantViolations(config, runtime).map(({ invariant, teamId }) => [invariant, teamId])).toEqual([
+      ['seats_within_capacity', undefined],
+      ['c_remain_non_negative', undefined],
+      ['fixed_left_non_negative', 'A'],
+      ['sold_cum_monotonic', undefined],
+    ]);
+    // Without the debug flag runTick does not check
+    expect(() => runTick({ ...config, debug: undefined }, runtime, decide(4))).not.toThrow();
+  });
+});
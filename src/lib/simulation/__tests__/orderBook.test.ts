@@ -0,0 +1,63 @@
+import { describe, expect, it } from '@jest/globals';
+import { bookDepth, cancelSeatOrders, createOrderBook, matchSeatOrders, postSeatOrder } from '@/lib/simulation/orderBook';
+import type { SeatInventory } from '@/lib/simulation/orderBook';
+
+describe('fixed-seat order book', () => {
+  const inventory = (): SeatInventory => ({
+    A: { fixed_left: 20, avg_fixed_cost: 100 },
+    B: { fixed_left: 0, avg_fixed_cost: 0 },
+    C: { fixed_left: 10, avg_fixed_cost: 90 },
+  });
+
+  it('matches by price-time priority at the resting order price', () => {
+    const book = createOrderBook();
+    const seats = inventory();
+    postSeatOrder(book, 'A', { side: 'ask', quantity: 5, price: 120 }, 12);
+    postSeatOrder(book, 'C', { side: 'ask', quantity: 5, price: 110 }, 12);
+    postSeatOrder(book, 'B', { side: 'bid', quantity: 8, price: 125 }, 12);
+
+    const trades = matchSeatOrders(book, seats, 12);
+
+    expect(trades).toEqual([
+      { tick: 12, buyer: 'B', seller: 'C', quantity: 5, price: 110 },
+      { tick: 12, buyer: 'B', seller: 'A', quantity: 3, price: 120 },
+    ]);
+    expect(seats.B).toEqual({ fixed_left: 8, avg_fixed_cost: (5 * 110 + 3 * 120) / 8 });
+    expect(seats.A.fixed_left).toBe(17);
+    expect(seats.C).toEqual({ fixed_left: 5, avg_fixed_cost: 90 });
+    expect(bookDepth(book)).toEqual({ bids: [], asks: [{ price: 120, quantity: 2 }] });
+  });
+
+  it('fills bids only as far as the buyer can pay', () => {
+    const book = createOrderBook();
+    const seats = inventory();
+    const spendable = { A: 0, B: 250, C: 0 };
+    postSeatOrder(book, 'C', { side: 'ask', quantity: 5, price: 100 }, 12);
+    postSeatOrder(book, 'A', { side: 'bid', quantity: 3, price: 110 }, 12);
+    postSeatOrder(book, 'B', { side: 'bid', quantity: 4, price: 105 }, 12);
+
+    expect(matchSeatOrders(book, seats, 12, spendable)).toEqual([{ tick: 12, buyer: 'B', seller: 'C', quantity: 2, price: 100 }]);
+    expect(spendable).toEqual({ A: 0, B: 50, C: 200 });
+    expect(bookDepth(book)).toEqual({ bids: [{ price: 110, quantity: 3 }, { price: 105, quantity: 2 }], asks: [{ price: 100, quantity: 3 }] });
+  });
+
+  it('skips self-trades, drops asks without seats and honours cancellations', () => {
+    const book = createOrderBook();
+    const seats = inventory();
+    seats.C.fixed_left = 0;
+    postSeatOrder(book, 'C', { side: 'ask', quantity: 4, price: 80 }, 10);
+    postSeatOrder(book, 'A', { side: 'ask', quantity: 4, price: 90 }, 10);
+    postSeatOrder(book, 'A', { side: 'bid', quantity: 4, price: 95 }, 10);
+    postSeatOrder(book, 'B', { side: 'bid', quantity: 2, price: 85 }, 10);
+
+    expect(matchSeatOrders(book, seats, 10)).toEqual([]);
+    expect(bookDepth(book)).toEqual({
+      bids: [{ price: 95, quantity: 4 }, { price: 85, quantity: 2 }],
+      asks: [{ price: 90, quantity: 4 }],
+    });
+
+    expect(cancelSeatOrders(book, 'A')).toHaveLength(2);
+    expect(bookDepth(book)).toEqual({ bids: [{ price: 85, quantity: 2 }], asks: [] });
+    expect(() => postSeatOrder(book, 'B', { side: 'bid', quantity: 0, price: 50 }, 10)).toThrow('positive quantity and price');
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, expect, it } from '@jest/globals';
+import { sampleBinomial, sampleMultinomial, sampleNegativeBinomial, samplePoisson } from '@/lib/simulation/random';
+
+describe('seeded samplers', () => {
+  const lcg = (seed: number) => {
+    let s = seed >>> 0;
+    return () => {
+      s = (s * 1664525 + 1013904223) >>> 0;
+      return s / 2 ** 32;
+    };
+  };
+  const moments = (draws: number[]) => {
+    const mean = draws.reduce((sum, value) => sum + value, 0) / draws.length;
+    const variance = draws.reduce((sum, value) => sum + (value - mean) ** 2, 0) / draws.length;
+    return { mean, variance };
+  };
+
+  it('draws Poisson counts with matching mean and variance, also above the chunk size', () => {
+    const rng = lcg(11);
+    const { mean, variance } = moments(Array.from({ length: 4000 }, () => samplePoisson(rng, 75)));
+
+    expect(mean).toBeGreaterThan(73);
+    expect(mean).toBeLessThan(77);
+    expect(variance).toBeGreaterThan(65);
+    expect(variance).toBeLessThan(85);
+  });
+
+  it('draws over-dispersed negative binomial counts', () => {
+    const rng = lcg(5);
+    const { mean, variance } = moments(Array.from({ length: 4000 }, () => sampleNegativeBinomial(rng, 40, 4)));
+
+    // variance = 40 + 40^2 / 4 = 440
+    expect(mean).toBeGreaterThan(37);
+    expect(mean).toBeLessThan(43);
+    expect(variance).toBeGreaterThan(350);
+    expect(variance).toBeLessThan(530);
+  });
+
+  it('returns zero for a non-positive mean without consuming randomness', () => {
+    let calls = 0;
+    const rng = () => {
+      calls += 1;
+      return 0.5;
+    };
+
+    expect(samplePoisson(rng, 0)).toBe(0);
+    expect(sampleNegativeBinomial(rng, -3, 2)).toBe(0);
+    expect(calls).toBe(0);
+  });
+  it('draws binomial counts exactly, also far above the direct-count threshold', () => {
+    const rng = lcg(23);
+    const { mean, variance } = moments(Array.from({ length: 4000 }, () => sampleBinomial(rng, 1000, 0.3)));
+
+    // mean = 300, variance = 1000 * 0.3 * 0.7 = 210
+    expect(mean).toBeGreaterThan(298);
+    expect(mean).toBeLessThan(302);
+    expect(variance).toBeGreaterThan(185);
+    expect(variance).toBeLessThan(235);
+    expect(sampleBinomial(rng, 50, 1)).toBe(50);
+    expect(sampleBinomial(rng, 50, 0)).toBe(0);
+  });
+
+  it('splits multinomial draws across categories by weight', () => {
+    const rng = lcg(3);
+    const totals = [0, 0, 0, 0];
+    for (let i = 0; i < 500; i += 1) {
+      const counts = sampleMultinomial(rng, 200, [1, 0, 3, 6]);
+      expect(counts.reduce((sum, value) => sum + value, 0)).toBe(200);
+      counts.forEach((value, idx) => { totals[idx] += value; });
+    }
+
+    expect(totals[1]).toBe(0);
+    expect(totals[0] / 100000).toBeCloseTo(0.1, 2);
+    expect(totals[2] / 100000).toBeCloseTo(0.3, 2);
+    expect(totals[3] / 100000).toBeCloseTo(0.6, 2);
+  });
+});
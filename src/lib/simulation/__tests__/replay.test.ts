@@ -0,0 +1,65 @@
+import { describe, expect, it } from '@jest/globals';
+import { createReplayRecorder, parseJsonl, toJsonl, verifyReplay } from '@/lib/simulation/replay';
+import type { AuctionBid, Config, Decision } from '@/lib/simulation/types';
+
+describe('replay log', () => {
+  const config: Config = {
+    ticks_total: 6,
+    seconds_per_tick: 60,
+    rng_seed: 7,
+    airline: { C_total: 120, P_airline_start: 120, P_min: 80, P_max: 400, gamma: 0.15, kappa: 50 },
+    market: { D_base: [10, 12, 16, 20, 26, 34], alpha: 1.1, beta: 6, P_ref: 150, price_priority_boost: 2 },
+    teams: [
+      { id: 'A', P_start: 200, P_floor: 99, P_ceil: 500 },
+      { id: 'B', P_start: 200, P_floor: 99, P_ceil: 500 },
+    ],
+    rules: {
+      need_price_above_cost: true,
+      push_cost_per_level: [0, 200, 600],
+      tool_cooldown_ticks: 3,
+      price_jump_threshold: 0.1,
+      anti_collusion_band_pct: 0.01,
+    },
+  };
+  const bids: AuctionBid[] = [
+    { teamId: 'A', bid_price_per_seat: 130, bid_quantity: 20 },
+    { teamId: 'B', bid_price_per_seat: 120, bid_quantity: 30 },
+  ];
+  const decisionsAt = (tick: number): Decision[] => [
+    { teamId: 'A', price: 150 + tick * 5, push_level: 1, fix_hold_pct: 0, tool: 'none' },
+    { teamId: 'B', price: 170 - tick * 3, push_level: 0, fix_hold_pct: 20, tool: tick === 4 ? 'spotlight' : 'none' },
+  ];
+
+  const recordSession = () => {
+    const recorder = createReplayRecorder(config, bids);
+    for (let tick = config.ticks_total; tick >= 1; tick -= 1) recorder.runTick(decisionsAt(tick));
+    recorder.finalize();
+    return recorder.log;
+  };
+
+  it('reproduces a recorded session from its JSONL log', () => {
+    const log = parseJsonl(toJsonl(recordSession()));
+
+    expect(log).toHaveLength(2 + config.ticks_total + 1);
+    expect(verifyReplay(log)).toEqual({ ok: true, ticks_checked: config.ticks_total });
+  });
+
+  it('reports the first tick where the replay diverges', () => {
+    const log = recordSession();
+    const tampered = log.map((record) => (record.type === 'tick' && record.tick === 3
+      ? { ...record, decisions: record.decisions.map((d) => ({ ...d, price: d.price + 40 })) }
+      : record));
+
+    const verification = verifyReplay(tampered);
+    expect(verification.ok).toBe(false);
+    if (!verification.ok) {
+      expect(verification.divergence.stage).toBe('tick');
+      expect(verification.divergence.tick).toBe(3);
+      expect(verification.ticks_checked).toBe(3);
+    }
+  });
+
+  it('rejects logs without a header', () => {
+    expect(() => parseJsonl('{"type":"tick"}\n')).toThrow('header');
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, expect, it } from '@jest/globals';
+import { finalize, initRuntime, runAuction } from '@/lib/simulation/engine';
+import { scoreReports } from '@/lib/simulation/scoring';
+import type { UnscoredReport } from '@/lib/simulation/scoring';
+import type { Config } from '@/lib/simulation/types';
+
+describe('winner scoring', () => {
+  const baseConfig = (): Config => ({
+    ticks_total: 3,
+    seconds_per_tick: 60,
+    rng_seed: 9,
+    airline: { C_total: 100, P_airline_start: 120, P_min: 80, P_max: 400, gamma: 0.15, kappa: 50 },
+    market: { D_base: [10, 20, 30], alpha: 1.1, beta: 6, P_ref: 150 },
+    teams: [
+      { id: 'A', P_start: 200, P_floor: 99, P_ceil: 500 },
+      { id: 'B', P_start: 200, P_floor: 99, P_ceil: 500 },
+      { id: 'C', P_start: 200, P_floor: 99, P_ceil: 500 },
+    ],
+    rules: {
+      need_price_above_cost: true,
+      push_cost_per_level: [0, 200, 600],
+      tool_cooldown_ticks: 3,
+      price_jump_threshold: 0,
+      anti_collusion_band_pct: 0,
+    },
+  });
+  const report = (teamId: string, overrides: Partial<UnscoredReport>): UnscoredReport => ({
+    teamId,
+    total_revenue: 0,
+    ticket_revenue: 0,
+    ancillary_revenue: 0,
+    ancillary_cost: 0,
+    total_cost: 0,
+    profit: 0,
+    avg_sell_price: 150,
+    avg_buy_price: 100,
+    sold_total: 0,
+    load_factor: 0,
+    released_fixed: 0,
+    release_recovered: 0,
+    spill: { held_back: 0, no_fixed_quota: 0, pool_exhausted: 0, credit_limit: 0, price_suppressed: 0 },
+    spill_total: 0,
+    spoiled_fixed: 0,
+    spoilage_cost: 0,
+    cash: 0,
+    insolvent: false,
+    ...overrides,
+  });
+  const reports = [
+    report('A', { total_revenue: 10000, profit: 3000, load_factor: 0.3 }),
+    report('B', { total_revenue: 4000, profit: 2000, load_factor: 0.2 }),
+    report('C', { total_revenue: 12000, profit: 4000, load_factor: 0.25, avg_sell_price: 90 }),
+  ];
+
+  it('defaults to raw profit among teams selling above cost', () => {
+    const config = baseConfig();
+    const scored = scoreReports(config, initRuntime(config, runAuction(config, [])), reports);
+
+    expect(scored.map((entry) => entry.score)).toEqual([3000, 2000, 4000]);
+    expect(scored.map((entry) => entry.eligible)).toEqual([true, true, false]);
+    expect(scored.map((entry) => entry.winner)).toEqual([true, false, false]);
+    expect(scored[0].score_breakdown).toEqual([{ kpi: 'profit', value: 3000, normalized: 3000, weight: 1, contribution: 3000 }]);
+    expect(finalize(config, initRuntime(config, runAuction(config, []))).every((entry) => entry.score === 0)).toBe(true);
+  });
+
+  it('mixes normalized KPIs by weight and applies eligibility rules and tie-breakers', () => {
+    const config: Config = {
+      ...baseConfig(),
+      scoring: {
+        criteria: [{ kpi: 'margin', weight: 0.5 }, { kpi: 'load_factor', weight: 0.5 }],
+        tie_breakers: ['revenue'],
+        eligibility: { price_above_cost: false, min_load_factor: 0.21 },
+      },
+    };
+    const runtime = initRuntime(config, runAuction(config, []));
+    const [a, b, c] = scoreReports(config, runtime, reports);
+
+    // margins 0.3, 0.5, 0.333 -> 0, 1, 0.167; load factors 0.3, 0.2, 0.25 -> 1, 0, 0.5
+    expect(a.score).toBeCloseTo(0.5);
+    expect(b.score).toBeCloseTo(0.5);
+    expect(c.score).toBeCloseTo((1 / 6 + 0.5) / 2);
+    expect(b.eligible).toBe(false);
+    expect(a.winner).toBe(true);
+
+    const tied = scoreReports({ ...config, scoring: { ...config.scoring!, eligibility: { price_above_cost: false } } }, runtime, reports);
+    expect(tied.find((entry) => entry.winner)?.teamId).toBe('A');
+    expect(() => scoreReports({ ...config, scoring: { criteria: [] } }, runtime, reports)).toThrow('Scoring needs at least one criterion');
+  });
+
+  it('lets the best score win when every team went insolvent', () => {
+    const config = baseConfig();
+    const broke = reports.map((entry) => ({ ...entry, insolvent: true }));
+    const scored = scoreReports(config, initRuntime(config, runAuction(config, [])), broke);
+
+    expect(scored.every((entry) => !entry.eligible)).toBe(true);
+    expect(scored.map((entry) => entry.winner)).toEqual([false, false, true]);
+    // One solvent team still beats any insolvent one
+    const oneSolvent = broke.map((entry) => (entry.teamId === 'B' ? { ...entry, insolvent: false, avg_sell_price: 90 } : entry));
+    expect(scoreReports(config, initRuntime(config, runAuction(config, [])), oneSolvent).find((entry) => entry.winner)?.teamId).toBe('B');
+  });
+
+  it('decides the winner among the requested teams only', () => {
+    const config = baseConfig();
+    const runtime = initRuntime(config, runAuction(config, []));
+    runtime.team.A.revenue = 5000;
+    runtime.team.B.revenue = 3000;
+
+    expect(finalize(config, runtime).find((entry) => entry.winner)?.teamId).toBe('A');
+    const remaining = finalize(config, runtime, ['B', 'C']);
+    expect(remaining.map((entry) => entry.teamId)).toEqual(['B', 'C']);
+    expect(remaining.find((entry) => entry.winner)?.teamId).toBe('B');
+  });
+
+  it('penalizes volatile cash flow in risk-adjusted profit', () => {
+    const config: Config = { ...baseConfig(), scoring: { criteria: [{ kpi: 'risk_adjusted_profit', weight: 1 }], normalize: 'none', risk_aversion: 2 } };
+    const runtime = initRuntime(config, runAuction(config, []));
+    const flow = (opening: number, closing: number) => ({
+      tick: 1, opening, sales: 0, pool_purchases: 0, ancillary_costs: 0, push: 0, tools: 0, releases: 0, seat_trades: 0, interest: 0, closing,
+    });
+    runtime.team.A.cash_ledger = [flow(0, 1500), flow(1500, 3000)];
+    runtime.team.B.cash_ledger = [flow(0, 0), flow(0, 2000)];
+
+    const [a, b] = scoreReports(config, runtime, reports);
+    expect(a.score).toBe(3000);
+    expect(b.score).toBe(2000 - 2 * 1000);
+  });
+});
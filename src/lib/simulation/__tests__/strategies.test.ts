@@ -0,0 +1,101 @@
+import { describe, expect, it } from '@jest/globals';
+import { runScenario } from '@/lib/simulation/batch';
+import { STRATEGY_NAMES, createStrategy, openingMoves, strategyRng } from '@/lib/simulation/strategies';
+import type { StrategyName, StrategyView } from '@/lib/simulation/strategies';
+import type { Config, MarketSnapshot, TeamState } from '@/lib/simulation/types';
+
+describe('bundled strategies', () => {
+  const config: Config = {
+    ticks_total: 6,
+    seconds_per_tick: 60,
+    rng_seed: 11,
+    airline: { C_total: 120, P_airline_start: 120, P_min: 80, P_max: 400, gamma: 0.15, kappa: 50 },
+    market: { D_base: [8, 10, 12, 16, 20, 26], alpha: 1.1, beta: 6, P_ref: 150 },
+    teams: [
+      { id: 'A', P_start: 180, P_floor: 99, P_ceil: 400 },
+      { id: 'B', P_start: 180, P_floor: 99, P_ceil: 400 },
+    ],
+    rules: {
+      need_price_above_cost: true,
+      push_cost_per_level: [0, 200, 600],
+      tool_cooldown_ticks: 3,
+      price_jump_threshold: 0.1,
+      anti_collusion_band_pct: 0,
+    },
+  };
+  const team = (overrides: Partial<TeamState> = {}): TeamState => ({
+    teamId: 'A',
+    fixed_left: 30,
+    avg_fixed_cost: 110,
+    price: 180,
+    revenue: 0,
+    cost: 3300,
+    sales_fix: 0,
+    sales_pool: 0,
+    ancillary_revenue: 0,
+    ancillary_cost: 0,
+    ...overrides,
+  });
+  const snapshot = (prices: Record<string, number>): MarketSnapshot => ({
+    tick: 4,
+    P_airline: 130,
+    C_remain: 60,
+    price_board: Object.entries(prices).map(([teamId, price]) => ({ teamId, price })),
+    demand_hint: 'med',
+    standings: [],
+    events: [],
+    seat_book: { bids: [], asks: [] },
+    seat_trades: [],
+  });
+  const view = (overrides: Partial<StrategyView> = {}): StrategyView => ({
+    tick: 4,
+    config,
+    team: team(),
+    snapshot: null,
+    rng: strategyRng(config, 'A'),
+    ...overrides,
+  });
+
+  it('plays a full market with every bundled bot', () => {
+    for (const name of STRATEGY_NAMES) {
+      const reports = runScenario(config, { A: name, B: 'cost_plus' });
+      expect(reports).toHaveLength(2);
+      for (const report of reports) expect(Number.isFinite(report.profit)).toBe(true);
+    }
+  });
+
+  it('undercuts the cheapest rival but not its own unit cost', () => {
+    const undercutter = createStrategy('undercutter');
+    expect(undercutter.decide(view({ snapshot: snapshot({ A: 180, B: 160 }) })).price).toBe(158);
+    expect(undercutter.decide(view({ snapshot: snapshot({ A: 180, B: 100 }) })).price).toBe(110);
+  });
+
+  it('prices up when holding more inventory than its share of remaining demand', () => {
+    const yieldManager = createStrategy('yield_manager');
+    const scarce = yieldManager.decide(view({ team: team({ fixed_left: 5 }) })).price;
+    const flooded = yieldManager.decide(view({ team: team({ fixed_left: 80 }) })).price;
+    expect(scarce).toBeGreaterThan(config.market.P_ref);
+    expect(flooded).toBeLessThan(scarce);
+  });
+
+  it('holds seats early and dumps them near departure', () => {
+    const holdThenDump = createStrategy('hold_then_dump');
+    const early = holdThenDump.decide(view({ tick: 6 }));
+    const late = holdThenDump.decide(view({ tick: 2 }));
+    expect(early).toMatchObject({ price: 210, fix_hold_pct: 50, push_level: 0 });
+    expect(late).toMatchObject({ price: 120, fix_hold_pct: 0, push_level: 2 });
+  });
+
+  it('marks up the pool price once its fixed seats are gone', () => {
+    const costPlus = createStrategy('cost_plus', { markup: 0.2 });
+    expect(costPlus.decide(view()).price).toBe(132);
+    expect(costPlus.decide(view({ team: team({ fixed_left: 0 }), snapshot: snapshot({ B: 200 }) })).price).toBe(156);
+  });
+
+  it('derives opening bids from the config and rejects unknown names', () => {
+    const { bid, decision } = openingMoves(createStrategy('cost_plus'), config, 'B');
+    expect(bid).toEqual({ teamId: 'B', bid_price_per_seat: 105, bid_quantity: 24 });
+    expect(decision.teamId).toBe('B');
+    expect(() => createStrategy('oracle' as StrategyName)).toThrow('Unknown strategy: oracle');
+  });
+});
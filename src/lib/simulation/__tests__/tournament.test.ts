@@ -0,0 +1,58 @@
+import { describe, expect, it } from '@jest/globals';
+import { createStrategy } from '@/lib/simulation/strategies';
+import { runTournament } from '@/lib/simulation/tournament';
+import type { TournamentEntrant } from '@/lib/simulation/tournament';
+import type { Config } from '@/lib/simulation/types';
+
+describe('bot tournament', () => {
+  const config: Config = {
+    ticks_total: 5,
+    seconds_per_tick: 60,
+    rng_seed: 21,
+    airline: { C_total: 120, P_airline_start: 120, P_min: 80, P_max: 400, gamma: 0.15, kappa: 50 },
+    market: { D_base: [10, 12, 16, 20, 26], alpha: 1.1, beta: 6, P_ref: 150, demand_noise: { mode: 'poisson' } },
+    teams: [
+      { id: 'S1', P_start: 200, P_floor: 99, P_ceil: 400 },
+      { id: 'S2', P_start: 200, P_floor: 99, P_ceil: 400 },
+    ],
+    rules: {
+      need_price_above_cost: true,
+      push_cost_per_level: [0, 200, 600],
+      tool_cooldown_ticks: 3,
+      price_jump_threshold: 0.1,
+      anti_collusion_band_pct: 0,
+    },
+  };
+  const entrants: TournamentEntrant[] = [
+    { id: 'markdown', strategy: 'markdown' },
+    { id: 'markdown-steep', strategy: createStrategy('markdown', { discount: 0.3 }) },
+    { id: 'drift', strategy: 'drift' },
+    { id: 'undercutter', strategy: 'undercutter' },
+  ];
+
+  it('plays every pairing in both seat orders on every seed', () => {
+    const result = runTournament(config, { entrants, runs: 2 });
+
+    expect(result.markets).toBe(6 * 2 * 2);
+    expect(result.standings.map((entry) => entry.markets)).toEqual([12, 12, 12, 12]);
+    const totalRating = result.standings.reduce((sum, entry) => sum + entry.rating, 0);
+    expect(totalRating).toBeCloseTo(4 * 1500);
+    for (let i = 1; i < result.standings.length; i += 1) {
+      expect(result.standings[i - 1].rating).toBeGreaterThanOrEqual(result.standings[i].rating);
+    }
+
+    const { head_to_head: h2h } = result;
+    expect(h2h.drift.undercutter.wins).toBe(h2h.undercutter.drift.losses);
+    expect(h2h.drift.undercutter.draws).toBe(h2h.undercutter.drift.draws);
+    const vsUndercutter = h2h.drift.undercutter;
+    expect(vsUndercutter.wins + vsUndercutter.losses + vsUndercutter.draws).toBe(4);
+
+    expect(runTournament(config, { entrants, seeds: result.seeds })).toEqual(result);
+  });
+
+  it('validates the table against the config and entrants', () => {
+    expect(() => runTournament(config, { entrants, table_size: 3 })).toThrow('Config has 2 seats but table_size is 3');
+    expect(() => runTournament(config, { entrants: entrants.slice(0, 1) })).toThrow('Need at least 2 entrants, got 1');
+    expect(() => runTournament(config, { entrants: [entrants[0], entrants[0]] })).toThrow('Duplicate entrant id: markdown');
+  });
+});
@@ -0,0 +1,117 @@
+import type { Runtime } from './engine';
+import type { AirlinePolicy, Config, FareClass } from './types';
+
+// Airline revenue-management policies. Each one maps the runtime after a tick to the pool
+// price for the next tick; `airlineReprice` in the engine clamps the result to P_min..P_max.
+
+const DEFAULT_POLICY: AirlinePolicy = { type: 'pressure' };
+
+// Acklam's rational approximation of the standard normal quantile (|error| < 1.2e-9).
+const A = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239];
+const B = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+const C = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+const D = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+
+function normalQuantile(p: number): number {
+  if (p <= 0) return Number.NEGATIVE_INFINITY;
+  if (p >= 1) return Number.POSITIVE_INFINITY;
+  const tail = (q: number) =>
+    (((((C[0] * q + C[1]) * q + C[2]) * q + C[3]) * q + C[4]) * q + C[5])
+    / ((((D[0] * q + D[1]) * q + D[2]) * q + D[3]) * q + 1);
+  if (p < 0.02425) return tail(Math.sqrt(-2 * Math.log(p)));
+  if (p > 1 - 0.02425) return -tail(Math.sqrt(-2 * Math.log(1 - p)));
+  const q = p - 0.5;
+  const r = q * q;
+  return ((((((A[0] * r + A[1]) * r + A[2]) * r + A[3]) * r + A[4]) * r + A[5]) * q)
+    / (((((B[0] * r + B[1]) * r + B[2]) * r + B[3]) * r + B[4]) * r + 1);
+}
+
+// Ticks already played; also the index of the next tick in D_base and script prices.
+const playedTicks = (config: Config, runtime: Runtime) => config.ticks_total - runtime.tick;
+
+export function pressurePrice(config: Config, runtime: Runtime): number {
+  const { P_min, P_max, gamma, kappa } = config.airline;
+  const index = playedTicks(config, runtime);
+  const sold = runtime.soldCum[index] ?? 0;
+  const forecast = runtime.forecastCum[index] ?? 0;
+  const delta = sold - forecast;
+  const pressure = Math.tanh(delta / Math.max(kappa, 1e-6));
+  const current = runtime.P_airline;
+  const headroomUp = Math.max(0, P_max - current);
+  const headroomDown = Math.max(0, current - P_min);
+  const appliedHeadroom = pressure >= 0 ? headroomUp : headroomDown;
+  return current + appliedHeadroom * gamma * pressure;
+}
+
+// Protection levels y_j for classes 1..j (highest fares first) against class j + 1.
+export function emsrBProtectionLevels(fareClasses: FareClass[], remainingDemand: number): number[] {
+  const classes = [...fareClasses].sort((a, b) => b.price - a.price);
+  const shareTotal = classes.reduce((sum, fare) => sum + Math.max(0, fare.share), 0) || 1;
+  const levels: number[] = [];
+  let mean = 0;
+  let variance = 0;
+  let revenue = 0;
+  for (let j = 0; j < classes.length - 1; j += 1) {
+    const classMean = remainingDemand * Math.max(0, classes[j].share) / shareTotal;
+    const classStd = classMean * (classes[j].cv ?? 0.3);
+    mean += classMean;
+    variance += classStd ** 2;
+    revenue += classes[j].price * classMean;
+    const weightedFare = mean > 0 ? revenue / mean : classes[j].price;
+    const ratio = classes[j + 1].price / weightedFare;
+    const protection = mean + Math.sqrt(variance) * normalQuantile(1 - ratio);
+    levels.push(Math.max(0, Number.isFinite(protection) ? protection : 0));
+  }
+  return levels;
+}
+
+export function emsrBPrice(config: Config, runtime: Runtime, fareClasses: FareClass[]): number {
+  if (fareClasses.length === 0) return runtime.P_airline;
+  const classes = [...fareClasses].sort((a, b) => b.price - a.price);
+  const remainingDemand = config.market.D_base
+    .slice(playedTicks(config, runtime))
+    .reduce((sum, value) => sum + value, 0);
+  const levels = emsrBProtectionLevels(classes, remainingDemand);
+  // The lowest class is open while capacity exceeds what is protected for the classes above it.
+  const closedFrom = levels.findIndex((level) => runtime.C_remain <= level);
+  return classes[closedFrom === -1 ? classes.length - 1 : closedFrom].price;
+}
+
+export function fareLadderPrice(config: Config, runtime: Runtime, steps: { load_factor: number; price: number }[]): number {
+  if (steps.length === 0) return runtime.P_airline;
+  const total = Math.max(1, config.airline.C_total);
+  const load = (total - runtime.C_remain) / total;
+  const sorted = [...steps].sort((a, b) => a.load_factor - b.load_factor);
+  const reached = sorted.filter((step) => load >= step.load_factor);
+  return (reached[reached.length - 1] ?? sorted[0]).price;
+}
+
+export function scriptedPrice(config: Config, runtime: Runtime, prices: number[]): number {
+  if (prices.length === 0) return runtime.P_airline;
+  return prices[Math.min(playedTicks(config, runtime), prices.length - 1)];
+}
+
+export function policyPrice(config: Config, runtime: Runtime): number {
+  const policy = config.airline.policy ?? DEFAULT_POLICY;
+  switch (policy.type) {
+    case 'emsr_b':
+      return emsrBPrice(config, runtime, policy.fare_classes);
+    case 'fare_ladder':
+      return fareLadderPrice(config, runtime, policy.steps);
+    case 'script':
+      return scriptedPrice(config, runtime, policy.prices);
+    case 'pressure':
+      return pressurePrice(config, runtime);
+    default:
+      throw new Error(`Unknown airline policy: ${(policy as { type: string }).type}`);
+  }
+}
+
+// Price before the first tick: the pressure rule starts at P_airline_start, the other
+// policies quote from the post-auction state.
+export function openingPrice(config: Config, runtime: Runtime): number {
+  const { P_airline_start, P_min, P_max } = config.airline;
+  const policy = config.airline.policy ?? DEFAULT_POLICY;
+  if (policy.type === 'pressure') return P_airline_start;
+  return Math.max(P_min, Math.min(P_max, policyPrice(config, runtime)));
+}
@@ -0,0 +1,33 @@
+import type { AncillaryProduct, Config, Decision } from './types';
+
+// Ancillary revenue per seat sold (Config.ancillaries). A fare below P_ref lifts the attach
+// rate, so a loss-leader fare can pay off through extras; pricing an extra above its list
+// price trades attach rate for margin.
+
+export type AncillaryQuote = {
+  revenue: number;            // expected ancillary revenue per seat sold
+  cost: number;               // expected ancillary unit costs per seat sold
+};
+
+const NO_ANCILLARIES: AncillaryQuote = { revenue: 0, cost: 0 };
+
+function attachRate(product: AncillaryProduct, fare: number, price: number, P_ref: number): number {
+  const discount = Math.max(0, Math.min(1, (P_ref - fare) / Math.max(P_ref, 1e-6)));
+  const markup = price / Math.max(product.list_price, 1e-6) - 1;
+  const rate = product.attach_rate * (1 + (product.fare_lift ?? 1) * discount) * Math.exp(-(product.price_sensitivity ?? 1) * markup);
+  return Math.max(0, Math.min(1, rate));
+}
+
+export function quoteAncillaries(config: Config, decision: Decision, P_ref: number): AncillaryQuote {
+  const products = config.ancillaries ?? [];
+  for (const id of Object.keys(decision.ancillary_prices ?? {})) {
+    if (!products.some((product) => product.id === id)) throw new Error(`Unknown ancillary: ${id}`);
+  }
+  if (products.length === 0) return NO_ANCILLARIES;
+  return products.reduce((quote, product) => {
+    const chosen = decision.ancillary_prices?.[product.id];
+    const price = chosen !== undefined && Number.isFinite(chosen) ? Math.max(0, chosen) : product.list_price;
+    const rate = attachRate(product, decision.price, price, P_ref);
+    return { revenue: quote.revenue + rate * price, cost: quote.cost + rate * product.unit_cost };
+  }, { revenue: 0, cost: 0 });
+}
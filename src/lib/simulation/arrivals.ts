@@ -0,0 +1,56 @@
+import type { Rng } from './random';
+import type { Decision } from './types';
+
+// Timeline of a continuous-time tick (market.arrivals = 'continuous'). The tick window is cut
+// into epochs at every price change; demand per epoch follows the board of that epoch and the
+// share of the tick's intensity it covers. Times are fractions of the tick window (0..1).
+
+export type PriceEpoch = {
+  start: number;
+  end: number;
+  decisions: Decision[];      // the tick's decisions with the prices in effect during the epoch
+  minPrice: number;
+};
+
+// Splits the window at the teams' price changes; `at` is already sanitized to 0 < at < window.
+export function priceEpochs(decisions: Decision[], window: number): PriceEpoch[] {
+  const cuts = Array.from(new Set(decisions.flatMap((decision) => (decision.price_changes ?? []).map((change) => change.at / window))))
+    .sort((a, b) => a - b);
+  const bounds = [0, ...cuts, 1];
+  const epochs: PriceEpoch[] = [];
+  for (let k = 0; k < bounds.length - 1; k += 1) {
+    const start = bounds[k];
+    const boardAt = decisions.map((decision) => {
+      const latest = (decision.price_changes ?? []).filter((change) => change.at / window <= start).pop();
+      return latest ? { ...decision, price: latest.price } : decision;
+    });
+    epochs.push({
+      start,
+      end: bounds[k + 1],
+      decisions: boardAt,
+      minPrice: Math.min(...boardAt.map((decision) => decision.price)),
+    });
+  }
+  return epochs;
+}
+
+// Share of the tick's arrivals expected before `u` when the intensity runs linearly from `from` to `to`.
+function intensityCdf(from: number, to: number, u: number): number {
+  if (from + to <= 0) return u;
+  return (from * u + ((to - from) * u * u) / 2) / ((from + to) / 2);
+}
+
+export function intensityShare(from: number, to: number, start: number, end: number): number {
+  return intensityCdf(from, to, end) - intensityCdf(from, to, start);
+}
+
+// Arrival time within [start, end) drawn from the linear intensity by inverting its CDF.
+export function sampleArrivalTime(rng: Rng, from: number, to: number, start: number, end: number): number {
+  const lo = intensityCdf(from, to, start);
+  const v = lo + rng() * (intensityCdf(from, to, end) - lo);
+  const slope = to - from;
+  const u = from + to <= 0 || Math.abs(slope) < 1e-9
+    ? v
+    : (-from + Math.sqrt(Math.max(0, from * from + slope * v * (from + to)))) / slope;
+  return Math.min(end, Math.max(start, u));
+}
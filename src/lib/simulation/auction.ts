@@ -0,0 +1,153 @@
+import type { Allocation, AuctionBid, AuctionMechanism, AuctionResult, TeamId } from './types';
+
+// Shared clearing logic for the fixed-seat auction. The engine (`runAuction`) and the
+// server (`GameService.allocateFixSeats`) both call `clearAuction`, so the seats and
+// prices a team sees in practice mode always match a live session.
+
+export type ClearingOptions = {
+  capacity: number;
+  mechanism?: AuctionMechanism;
+  reserve_price?: number;
+};
+
+type RankedBid = {
+  bid: AuctionBid;
+  eligible: number;
+};
+
+const tieBreak = (a: TeamId, b: TeamId) => a.localeCompare(b);
+
+function eligibleQuantity(bid: AuctionBid, reservePrice: number): number {
+  if (bid.bid_price_per_seat < reservePrice) return 0;
+  const requested = Math.max(0, Math.floor(bid.bid_quantity));
+  const maxByBudget = bid.budget_cap && bid.bid_price_per_seat > 0
+    ? Math.floor(bid.budget_cap / bid.bid_price_per_seat)
+    : requested;
+  return Math.max(0, Math.min(requested, maxByBudget));
+}
+
+function rankBids(bids: AuctionBid[], reservePrice: number): RankedBid[] {
+  return [...bids]
+    .sort((a, b) => b.bid_price_per_seat - a.bid_price_per_seat)
+    .map((bid) => ({ bid, eligible: eligibleQuantity(bid, reservePrice) }));
+}
+
+// Fills capacity tier by tier (descending price). A tier that does not fit is split
+// proportionally; leftover seats go to the largest remainders, ties by team id.
+function allocateSeats(ranked: RankedBid[], capacity: number): Map<TeamId, number> {
+  const awarded = new Map<TeamId, number>();
+  let capacityLeft = Math.max(0, Math.floor(capacity));
+
+  let start = 0;
+  while (start < ranked.length) {
+    const price = ranked[start].bid.bid_price_per_seat;
+    let end = start;
+    while (end < ranked.length && ranked[end].bid.bid_price_per_seat === price) end += 1;
+    const tier = ranked.slice(start, end);
+    start = end;
+
+    const tierRequested = tier.reduce((sum, entry) => sum + entry.eligible, 0);
+    if (capacityLeft <= 0 || tierRequested <= 0) {
+      tier.forEach(({ bid }) => awarded.set(bid.teamId, 0));
+      continue;
+    }
+
+    if (tierRequested <= capacityLeft) {
+      tier.forEach(({ bid, eligible }) => awarded.set(bid.teamId, eligible));
+      capacityLeft -= tierRequested;
+      continue;
+    }
+
+    const ratio = capacityLeft / tierRequested;
+    const provisional = tier.map(({ bid, eligible }) => {
+      const exact = eligible * ratio;
+      const base = Math.floor(exact);
+      return { teamId: bid.teamId, base, remainder: exact - base };
+    });
+    let seatsLeft = capacityLeft - provisional.reduce((sum, item) => sum + item.base, 0);
+    provisional
+      .sort((a, b) => (b.remainder !== a.remainder ? b.remainder - a.remainder : tieBreak(a.teamId, b.teamId)))
+      .forEach((item) => {
+        const extra = seatsLeft > 0 ? 1 : 0;
+        seatsLeft -= extra;
+        awarded.set(item.teamId, item.base + extra);
+      });
+    capacityLeft = 0;
+  }
+
+  return awarded;
+}
+
+// VCG payment: the bids the winner pushed out of the allocation, plus the reserve
+// price for seats nobody else wanted.
+function vickreyPayment(
+  ranked: RankedBid[],
+  awarded: Map<TeamId, number>,
+  capacity: number,
+  teamId: TeamId,
+  reservePrice: number,
+): number {
+  const seats = awarded.get(teamId) ?? 0;
+  if (seats <= 0) return 0;
+  const without = allocateSeats(ranked.filter(({ bid }) => bid.teamId !== teamId), capacity);
+
+  let displacedSeats = 0;
+  let displacedValue = 0;
+  for (const { bid } of ranked) {
+    if (bid.teamId === teamId) continue;
+    const gained = (without.get(bid.teamId) ?? 0) - (awarded.get(bid.teamId) ?? 0);
+    if (gained <= 0) continue;
+    displacedSeats += gained;
+    displacedValue += gained * bid.bid_price_per_seat;
+  }
+  return displacedValue + Math.max(0, seats - displacedSeats) * reservePrice;
+}
+
+export function clearAuction(bids: AuctionBid[], options: ClearingOptions): AuctionResult {
+  const mechanism = options.mechanism ?? 'pay_as_bid';
+  const reservePrice = Math.max(0, options.reserve_price ?? 0);
+  const ranked = rankBids(bids, reservePrice);
+  const awarded = allocateSeats(ranked, options.capacity);
+
+  const winners = ranked.filter(({ bid }) => (awarded.get(bid.teamId) ?? 0) > 0);
+  const clearingPrice = winners.length > 0
+    ? Math.min(...winners.map(({ bid }) => bid.bid_price_per_seat))
+    : 0;
+
+  const marginal_bids: Record<TeamId, number> = {};
+  const allocations: Allocation[] = ranked.map(({ bid }) => {
+    const seats = awarded.get(bid.teamId) ?? 0;
+    marginal_bids[bid.teamId] = seats > 0 ? bid.bid_price_per_seat : 0;
+    if (seats <= 0) {
+      return { teamId: bid.teamId, awarded_fixed: 0, avg_fixed_cost: 0, fixed_costs_total: 0 };
+    }
+
+    let costTotal: number;
+    switch (mechanism) {
+      case 'uniform_price':
+        costTotal = seats * clearingPrice;
+        break;
+      case 'vickrey':
+        costTotal = vickreyPayment(ranked, awarded, options.capacity, bid.teamId, reservePrice);
+        break;
+      default:
+        costTotal = seats * bid.bid_price_per_seat;
+    }
+
+    return {
+      teamId: bid.teamId,
+      awarded_fixed: seats,
+      avg_fixed_cost: costTotal / seats,
+      fixed_costs_total: costTotal,
+    };
+  });
+
+  const used = allocations.reduce((sum, allocation) => sum + allocation.awarded_fixed, 0);
+  return {
+    allocations,
+    airline_capacity_used: used,
+    mechanism,
+    clearing_price: clearingPrice,
+    marginal_bids,
+  };
+}
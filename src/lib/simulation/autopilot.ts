@@ -0,0 +1,237 @@
+import type { StrategyView } from './strategies';
+import type { Decision } from './types';
+
+// Team-authored pricing rules, a small JSON DSL evaluated before each tick over what a team
+// sees (its TeamState and the last MarketSnapshot). Rules run in order; each one whose `when`
+// holds applies its `then` to the decision built so far, so later rules win. A value that
+// cannot be computed (e.g. no competitor on the board yet) makes its condition false and
+// its action a no-op.
+//
+//   [
+//     { "when": { "left": "C_remain", "cmp": "<", "right": 30 }, "then": { "adjust_price_pct": 5 } },
+//     { "then": { "set_price": { "sub": ["cheapest_competitor", 2] }, "min_price": "avg_fixed_cost" } },
+//     { "when": { "left": "tick", "cmp": "<=", "right": 3 }, "then": { "push_level": 2 } }
+//   ]
+
+export const AUTOPILOT_VARIABLES = [
+  'tick',                 // countdown tick about to be played
+  'ticks_total',
+  'P_ref',
+  'price',                // the team's current price
+  'avg_fixed_cost',
+  'fixed_left',
+  'sales_fix',
+  'sales_pool',
+  'sold',
+  'revenue',
+  'cost',
+  'profit',
+  'C_remain',             // from the last snapshot
+  'P_airline',            // from the last snapshot
+  'cheapest_competitor',  // cheapest other price on the last board, external competitors included
+] as const;
+
+export type AutopilotVariable = typeof AUTOPILOT_VARIABLES[number];
+
+type Operator = 'add' | 'sub' | 'mul' | 'div' | 'min' | 'max';
+const OPERATORS: Operator[] = ['add', 'sub', 'mul', 'div', 'min', 'max'];
+const COMPARATORS = ['<', '<=', '>', '>=', '=='] as const;
+
+export type AutopilotValue =
+  | number
+  | AutopilotVariable
+  | { [op in Operator]?: AutopilotValue[] };
+
+export type AutopilotCondition =
+  | { left: AutopilotValue; cmp: typeof COMPARATORS[number]; right: AutopilotValue }
+  | { all: AutopilotCondition[] }
+  | { any: AutopilotCondition[] };
+
+export interface AutopilotAction {
+  set_price?: AutopilotValue;
+  adjust_price_pct?: AutopilotValue;  // +5 raises the price built so far by 5%
+  min_price?: AutopilotValue;
+  max_price?: AutopilotValue;
+  push_level?: 0 | 1 | 2;
+  fix_hold_pct?: number;
+}
+
+export interface AutopilotRule {
+  when?: AutopilotCondition;          // always applies when omitted
+  then: AutopilotAction;
+}
+
+export type AutopilotProgram = AutopilotRule[];
+
+const MAX_RULES = 20;
+const MAX_DEPTH = 8;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function fail(path: string, problem: string): never {
+  throw new Error(`Autopilot ${path}: ${problem}`);
+}
+
+function checkKeys(value: Record<string, unknown>, allowed: string[], path: string): void {
+  const unknown = Object.keys(value).find((key) => !allowed.includes(key));
+  if (unknown) fail(path, `unknown key "${unknown}"`);
+}
+
+function parseValue(input: unknown, path: string, depth: number): AutopilotValue {
+  if (depth > MAX_DEPTH) fail(path, 'expression is nested too deeply');
+  if (typeof input === 'number') {
+    if (!Number.isFinite(input)) fail(path, 'numbers must be finite');
+    return input;
+  }
+  if (typeof input === 'string') {
+    if (!(AUTOPILOT_VARIABLES as readonly string[]).includes(input)) fail(path, `unknown variable "${input}"`);
+    return input as AutopilotVariable;
+  }
+  if (isObject(input)) {
+    const keys = Object.keys(input);
+    const op = keys[0] as Operator;
+    if (keys.length !== 1 || !OPERATORS.includes(op)) fail(path, `expected one of ${OPERATORS.join(', ')}`);
+    const args = input[op];
+    if (!Array.isArray(args) || args.length < 2) fail(`${path}.${op}`, 'needs at least two arguments');
+    return { [op]: args.map((arg, idx) => parseValue(arg, `${path}.${op}[${idx}]`, depth + 1)) };
+  }
+  return fail(path, 'expected a number, a variable or an operator');
+}
+
+function parseCondition(input: unknown, path: string, depth: number): AutopilotCondition {
+  if (depth > MAX_DEPTH) fail(path, 'condition is nested too deeply');
+  if (!isObject(input)) fail(path, 'expected a condition object');
+  for (const combinator of ['all', 'any'] as const) {
+    if (combinator in input) {
+      checkKeys(input, [combinator], path);
+      const parts = input[combinator];
+      if (!Array.isArray(parts) || parts.length === 0) fail(`${path}.${combinator}`, 'needs at least one condition');
+      const parsed = parts.map((part, idx) => parseCondition(part, `${path}.${combinator}[${idx}]`, depth + 1));
+      return combinator === 'all' ? { all: parsed } : { any: parsed };
+    }
+  }
+  checkKeys(input, ['left', 'cmp', 'right'], path);
+  const cmp = input.cmp as typeof COMPARATORS[number];
+  if (!COMPARATORS.includes(cmp)) fail(`${path}.cmp`, `expected one of ${COMPARATORS.join(' ')}`);
+  return {
+    left: parseValue(input.left, `${path}.left`, depth + 1),
+    cmp,
+    right: parseValue(input.right, `${path}.right`, depth + 1),
+  };
+}
+
+function parseAction(input: unknown, path: string): AutopilotAction {
+  if (!isObject(input)) fail(path, 'expected an action object');
+  checkKeys(input, ['set_price', 'adjust_price_pct', 'min_price', 'max_price', 'push_level', 'fix_hold_pct'], path);
+  if (Object.keys(input).length === 0) fail(path, 'action is empty');
+  const action: AutopilotAction = {};
+  for (const key of ['set_price', 'adjust_price_pct', 'min_price', 'max_price'] as const) {
+    if (input[key] !== undefined) action[key] = parseValue(input[key], `${path}.${key}`, 0);
+  }
+  if (input.push_level !== undefined) {
+    if (input.push_level !== 0 && input.push_level !== 1 && input.push_level !== 2) fail(`${path}.push_level`, 'expected 0, 1 or 2');
+    action.push_level = input.push_level;
+  }
+  if (input.fix_hold_pct !== undefined) {
+    const pct = input.fix_hold_pct;
+    if (typeof pct !== 'number' || !(pct >= 0 && pct <= 100)) fail(`${path}.fix_hold_pct`, 'expected a number from 0 to 100');
+    action.fix_hold_pct = pct;
+  }
+  return action;
+}
+
+// Validates untrusted JSON (e.g. from a client) and returns it as a program; throws on the first problem.
+export function parseAutopilot(input: unknown): AutopilotProgram {
+  if (!Array.isArray(input)) fail('rules', 'expected a list of rules');
+  if (input.length > MAX_RULES) fail('rules', `at most ${MAX_RULES} rules are allowed`);
+  return input.map((rule, idx) => {
+    const path = `rules[${idx}]`;
+    if (!isObject(rule)) fail(path, 'expected a rule object');
+    checkKeys(rule, ['when', 'then'], path);
+    return {
+      ...(rule.when !== undefined ? { when: parseCondition(rule.when, `${path}.when`, 0) } : {}),
+      then: parseAction(rule.then, `${path}.then`),
+    };
+  });
+}
+
+type Variables = Record<AutopilotVariable, number | undefined>;
+
+function variablesOf(view: StrategyView): Variables {
+  const { team, snapshot, config } = view;
+  const rivals = (snapshot?.price_board ?? []).filter((entry) => entry.teamId !== team.teamId);
+  return {
+    tick: view.tick,
+    ticks_total: config.ticks_total,
+    P_ref: config.market.P_ref,
+    price: team.price,
+    avg_fixed_cost: team.avg_fixed_cost,
+    fixed_left: team.fixed_left,
+    sales_fix: team.sales_fix,
+    sales_pool: team.sales_pool,
+    sold: team.sales_fix + team.sales_pool,
+    revenue: team.revenue,
+    cost: team.cost,
+    profit: team.revenue - team.cost,
+    C_remain: snapshot?.C_remain,
+    P_airline: snapshot?.P_airline,
+    cheapest_competitor: rivals.length > 0 ? Math.min(...rivals.map((entry) => entry.price)) : undefined,
+  };
+}
+
+function evaluate(value: AutopilotValue, vars: Variables): number | undefined {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string') return vars[value];
+  const [op, args] = Object.entries(value)[0] as [Operator, AutopilotValue[]];
+  const values = args.map((arg) => evaluate(arg, vars));
+  if (values.some((entry) => entry === undefined)) return undefined;
+  const [first, ...rest] = values as number[];
+  switch (op) {
+    case 'add': return rest.reduce((sum, entry) => sum + entry, first);
+    case 'sub': return rest.reduce((sum, entry) => sum - entry, first);
+    case 'mul': return rest.reduce((product, entry) => product * entry, first);
+    case 'div': return rest.some((entry) => entry === 0) ? undefined : rest.reduce((quotient, entry) => quotient / entry, first);
+    case 'min': return Math.min(first, ...rest);
+    default: return Math.max(first, ...rest);
+  }
+}
+
+function holds(condition: AutopilotCondition, vars: Variables): boolean {
+  if ('all' in condition) return condition.all.every((part) => holds(part, vars));
+  if ('any' in condition) return condition.any.some((part) => holds(part, vars));
+  const left = evaluate(condition.left, vars);
+  const right = evaluate(condition.right, vars);
+  if (left === undefined || right === undefined) return false;
+  switch (condition.cmp) {
+    case '<': return left < right;
+    case '<=': return left <= right;
+    case '>': return left > right;
+    case '>=': return left >= right;
+    default: return left === right;
+  }
+}
+
+// The team's decision for the tick in `view`: its current price and no push, hold or tool,
+// adjusted by every rule that fires, then kept within the team's floor and ceiling.
+export function autopilotDecision(program: AutopilotProgram, view: StrategyView): Decision {
+  const vars = variablesOf(view);
+  const decision: Decision = { teamId: view.team.teamId, price: view.team.price, push_level: 0, fix_hold_pct: 0, tool: 'none' };
+  for (const rule of program) {
+    if (rule.when && !holds(rule.when, vars)) continue;
+    const { then } = rule;
+    const price = then.set_price !== undefined ? evaluate(then.set_price, vars) : undefined;
+    if (price !== undefined) decision.price = price;
+    const pct = then.adjust_price_pct !== undefined ? evaluate(then.adjust_price_pct, vars) : undefined;
+    if (pct !== undefined) decision.price *= 1 + pct / 100;
+    const floor = then.min_price !== undefined ? evaluate(then.min_price, vars) : undefined;
+    if (floor !== undefined) decision.price = Math.max(decision.price, floor);
+    const ceiling = then.max_price !== undefined ? evaluate(then.max_price, vars) : undefined;
+    if (ceiling !== undefined) decision.price = Math.min(decision.price, ceiling);
+    if (then.push_level !== undefined) decision.push_level = then.push_level;
+    if (then.fix_hold_pct !== undefined) decision.fix_hold_pct = then.fix_hold_pct;
+  }
+  const bounds = view.config.teams.find((team) => team.id === view.team.teamId);
+  const price = bounds ? Math.max(bounds.P_floor, Math.min(bounds.P_ceil, decision.price)) : decision.price;
+  return { ...decision, price: Math.round(price) };
+}
@@ -0,0 +1,144 @@
+import { finalize, initRuntime, runAuction, runTick } from './engine';
+import { buildStrategyView, resolveStrategy, strategyRng } from './strategies';
+import type { Strategy, StrategyName } from './strategies';
+import type { Config, FinalReport, MarketSnapshot, SaleAllocation, TeamId } from './types';
+
+// Monte Carlo runner: plays the same scenario with fixed team strategies across many
+// `rng_seed` values and summarises the spread of outcomes per team.
+
+export type TeamStrategies = Record<TeamId, Strategy | StrategyName>;
+
+export interface BatchOptions {
+  strategies: TeamStrategies;
+  runs?: number;               // seeds rng_seed, rng_seed + 1, ... (ignored when seeds is given)
+  seeds?: number[];
+}
+
+export interface Distribution {
+  mean: number;
+  std: number;
+  min: number;
+  p10: number;
+  p50: number;
+  p90: number;
+  max: number;
+}
+
+export interface TeamBatchStats {
+  teamId: TeamId;
+  profit: Distribution;
+  load_factor: Distribution;
+  avg_sell_price: Distribution;
+  win_rate: number;
+}
+
+export interface BatchResult {
+  seeds: number[];
+  teams: TeamBatchStats[];
+}
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const position = (sorted.length - 1) * p;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+export function summarize(values: number[]): Distribution {
+  if (values.length === 0) {
+    return { mean: 0, std: 0, min: 0, p10: 0, p50: 0, p90: 0, max: 0 };
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length;
+  return {
+    mean,
+    std: Math.sqrt(variance),
+    min: sorted[0],
+    p10: percentile(sorted, 0.1),
+    p50: percentile(sorted, 0.5),
+    p90: percentile(sorted, 0.9),
+    max: sorted[sorted.length - 1],
+  };
+}
+
+export function runScenario(config: Config, strategies: TeamStrategies): FinalReport[] {
+  const players = config.teams.map((team) => {
+    const strategy = strategies[team.id];
+    if (!strategy) throw new Error(`Missing strategy for team: ${team.id}`);
+    return { teamId: team.id, strategy: resolveStrategy(strategy), rng: strategyRng(config, team.id) };
+  });
+
+  const bids = players.map(({ teamId, strategy, rng }) => strategy.bid({ teamId, config, rng }));
+  const runtime = initRuntime(config, runAuction(config, bids));
+  let snapshot: MarketSnapshot | null = null;
+
+  for (let t = config.ticks_total; t >= 1; t -= 1) {
+    const decisions = players.map(({ teamId, strategy, rng }) => strategy.decide(
+      buildStrategyView(config, runtime, teamId, snapshot, rng),
+    ));
+    snapshot = runTick(config, runtime, decisions).snapshot;
+  }
+
+  return finalize(config, runtime);
+}
+
+export function runBatch(config: Config, options: BatchOptions): BatchResult {
+  const seeds = options.seeds
+    ?? Array.from({ length: Math.max(1, Math.floor(options.runs ?? 100)) }, (_, idx) => config.rng_seed + idx);
+
+  const samples = new Map<TeamId, { profit: number[]; load_factor: number[]; avg_sell_price: number[]; wins: number }>();
+  config.teams.forEach((team) => samples.set(team.id, { profit: [], load_factor: [], avg_sell_price: [], wins: 0 }));
+
+  for (const seed of seeds) {
+    const reports = runScenario({ ...config, rng_seed: seed }, options.strategies);
+    for (const report of reports) {
+      const entry = samples.get(report.teamId);
+      if (!entry) continue;
+      entry.profit.push(report.profit);
+      entry.load_factor.push(report.load_factor);
+      entry.avg_sell_price.push(report.avg_sell_price);
+      if (report.winner) entry.wins += 1;
+    }
+  }
+
+  return {
+    seeds,
+    teams: Array.from(samples.entries()).map(([teamId, entry]) => ({
+      teamId,
+      profit: summarize(entry.profit),
+      load_factor: summarize(entry.load_factor),
+      avg_sell_price: summarize(entry.avg_sell_price),
+      win_rate: seeds.length > 0 ? entry.wins / seeds.length : 0,
+    })),
+  };
+}
+
+export interface AllocationBenchmark {
+  seeds: number[];
+  per_customer: { ms: number; result: BatchResult };
+  multinomial: { ms: number; result: BatchResult };
+  speedup: number;             // per_customer ms / multinomial ms
+}
+
+// Plays the same batch once per sale allocation mode (market.allocation) and times both.
+export function benchmarkAllocation(
+  config: Config,
+  options: BatchOptions,
+  now: () => number = () => performance.now(),
+): AllocationBenchmark {
+  const timed = (allocation: SaleAllocation) => {
+    const started = now();
+    const result = runBatch({ ...config, market: { ...config.market, allocation } }, options);
+    return { ms: now() - started, result };
+  };
+  const perCustomer = timed('per_customer');
+  const multinomial = timed('multinomial');
+  return {
+    seeds: perCustomer.result.seeds,
+    per_customer: perCustomer,
+    multinomial,
+    speedup: multinomial.ms > 0 ? perCustomer.ms / multinomial.ms : Number.POSITIVE_INFINITY,
+  };
+}
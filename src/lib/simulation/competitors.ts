@@ -0,0 +1,40 @@
+import type { Runtime } from './engine';
+import type { Config, ExternalCompetitor } from './types';
+
+// Non-player competitors (market.external_competitors). Each tick they post a price from
+// their pricing rule; the engine adds them to the choice set next to the teams.
+
+export type ExternalQuote = {
+  id: string;
+  price: number;
+  attention: number;
+};
+
+function externalPrice(competitor: ExternalCompetitor, runtime: Runtime, tickIndex: number): number {
+  const { pricing } = competitor;
+  switch (pricing.type) {
+    case 'scripted':
+      if (pricing.prices.length === 0) {
+        throw new Error(`External competitor ${competitor.id} has no scripted prices`);
+      }
+      return pricing.prices[Math.min(tickIndex, pricing.prices.length - 1)];
+    case 'follow_airline':
+      return runtime.P_airline * (1 + (pricing.markup_pct ?? 0) / 100) + (pricing.markup ?? 0);
+    default:
+      return pricing.price;
+  }
+}
+
+export function quoteExternalCompetitors(config: Config, runtime: Runtime): ExternalQuote[] {
+  const tickIndex = config.ticks_total - runtime.tick;
+  return (config.market.external_competitors ?? []).map((competitor) => {
+    if (runtime.team[competitor.id]) {
+      throw new Error(`External competitor id clashes with a team: ${competitor.id}`);
+    }
+    return {
+      id: competitor.id,
+      price: Math.max(1, Math.round(externalPrice(competitor, runtime, tickIndex))),
+      attention: Math.max(0, competitor.attention ?? 1),
+    };
+  });
+}
@@ -1,6 +1,7 @@
 import { runAuction, initRuntime, runTick, finalize } from './engine';
 import { defaultConfig } from './defaultConfig';
-import { AuctionBid, Decision, MarketSnapshot, DayResults, FinalReport } from './types';
+import { buildStrategyView, createStrategy, strategyRng } from './strategies';
+import { MarketSnapshot, DayResults, FinalReport } from './types';
 
 export type DemoResult = {
   auction: ReturnType<typeof runAuction>;
@@ -11,31 +12,26 @@ export type DemoResult = {
 export function runDemoSimulation(): DemoResult {
   const config = defaultConfig;
 
-  const bids: AuctionBid[] = config.teams.map((team, idx) => ({
+  const bots = config.teams.map((team, idx) => ({
     teamId: team.id,
-    bid_price_per_seat: 150 - idx * 5,
-    bid_quantity: 60,
+    strategy: createStrategy('drift', { bid_price: 150 - idx * 5 }),
+    rng: strategyRng(config, team.id),
   }));
 
+  const bids = bots.map(({ teamId, strategy, rng }) => strategy.bid({ teamId, config, rng }));
   const auction = runAuction(config, bids);
   const runtime = initRuntime(config, auction);
   const timeline: Array<{ snapshot: MarketSnapshot; results: DayResults }> = [];
+  let lastSnapshot: MarketSnapshot | null = null;
 
   for (let t = config.ticks_total; t >= 1; t -= 1) {
-    const decisions: Decision[] = config.teams.map((team) => {
-      const state = runtime.team[team.id];
-      const priceTrend = state.last_price * (1 - 0.01 * (runtime.rng() - 0.5));
-      return {
-        teamId: team.id,
-        price: Math.round(priceTrend),
-        push_level: 0,
-        fix_hold_pct: 0,
-        tool: 'none',
-      };
-    });
+    const decisions = bots.map(({ teamId, strategy, rng }) => strategy.decide(
+      buildStrategyView(config, runtime, teamId, lastSnapshot, rng),
+    ));
 
     const { snapshot, results } = runTick(config, runtime, decisions);
     timeline.push({ snapshot, results });
+    lastSnapshot = snapshot;
   }
 
   const finalReport = finalize(config, runtime);
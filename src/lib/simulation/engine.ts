@@ -1,25 +1,78 @@
 import {
   Allocation,
+  Arrival,
   AuctionBid,
   AuctionResult,
   Config,
   DayResults,
   Decision,
   FinalReport,
+  MarketEvent,
   MarketSnapshot,
+  PriceChange,
+  ReleaseTerm,
+  LostDemand,
+  SeatTrade,
+  ShareExplanation,
   TeamId,
   TeamState,
   ToolChoice,
+  ToolDefinition,
 } from './types';
+import { openingPrice, policyPrice } from './airline';
+import { quoteAncillaries } from './ancillaries';
+import type { AncillaryQuote } from './ancillaries';
+import { intensityShare, priceEpochs, sampleArrivalTime } from './arrivals';
+import { clearAuction } from './auction';
+import { quoteExternalCompetitors } from './competitors';
+import type { ExternalQuote } from './competitors';
+import { assertInvariants } from './invariants';
+import { bookDepth, cancelSeatOrders, createOrderBook, matchSeatOrders, postSeatOrder } from './orderBook';
+import type { SeatOrderBook } from './orderBook';
+import { scoreReports } from './scoring';
+import type { UnscoredReport } from './scoring';
+import { findTool } from './tools';
+import { sampleMultinomial, sampleNegativeBinomial, samplePoisson, seededRng } from './random';
+import type { SeededRng } from './random';
 
-type RuntimeTeamState = TeamState & {
+// A tool currently in effect for a team; reserved seats are held outside C_remain.
+export type ActiveTool = {
+  id: string;
+  ticks_left: number;
+  locked_price?: number;
+  reserved_seats?: number;
+};
+
+// Cash movements of one tick; outflows are positive amounts.
+export type CashLedgerEntry = {
+  tick: number;
+  opening: number;
+  sales: number;
+  pool_purchases: number;
+  ancillary_costs: number;
+  push: number;
+  tools: number;
+  releases: number;           // net refund for released fixed seats (negative if penalties dominate)
+  seat_trades: number;        // net proceeds from secondary-market trades (negative for buyers)
+  interest: number;
+  closing: number;
+};
+
+export type RuntimeTeamState = TeamState & {
   last_price: number;
   fix_hold_quota: number;
   push_spend: number;
   tool_cooldown: number;
-  tool_active: ToolChoice;
+  active_tools: ActiveTool[];
+  cash: number;
+  insolvent: boolean;
+  cash_ledger: CashLedgerEntry[];
+  released_fixed: number;
+  release_recovered: number;
   attention_bonus: number;
   price_history: number[];
+  segment_sales: Record<string, number>;
+  spill: LostDemand;
 };
 
 export type Runtime = {
@@ -27,60 +80,38 @@ export type Runtime = {
   P_airline: number;
   C_remain: number;
   team: Record<TeamId, RuntimeTeamState>;
-  rng: () => number;
+  rng: SeededRng;
   sold_history: { teamId: TeamId; price: number; buy: number }[];
   forecastCum: number[];
   soldCum: number[];
   collusion_window: Array<{ prices: Record<TeamId, number> }>; // track last ticks for anti-collusion
+  seat_book: SeatOrderBook;
 };
 
-const clamp = (x: number, lo: number, hi: number) => Math.max(lo, Math.min(hi, x));
+// Versioned, JSON-safe copy of a Runtime. Bump the version whenever the shape changes.
+export const RUNTIME_SNAPSHOT_VERSION = 9;
 
-function seededRng(seed: number): () => number {
-  let s = seed >>> 0;
-  return () => {
-    s = (s * 1664525 + 1013904223) >>> 0;
-    return s / 2 ** 32;
-  };
-}
-
-export function runAuction(config: Config, bids: AuctionBid[]): AuctionResult {
-  const C_total = config.airline.C_total;
-  const sorted = [...bids].sort((a, b) => b.bid_price_per_seat - a.bid_price_per_seat);
-
-  let capacity_left = C_total;
-  const allocations: Allocation[] = [];
+export type RuntimeSnapshot = Omit<Runtime, 'rng'> & {
+  version: typeof RUNTIME_SNAPSHOT_VERSION;
+  rng_state: number;
+};
 
-  for (const bid of sorted) {
-    if (capacity_left <= 0) {
-      allocations.push({ teamId: bid.teamId, awarded_fixed: 0, avg_fixed_cost: 0, fixed_costs_total: 0 });
-      continue;
-    }
+const clamp = (x: number, lo: number, hi: number) => Math.max(lo, Math.min(hi, x));
 
-    const requested = Math.max(0, Math.floor(bid.bid_quantity));
-    if (requested === 0) {
-      allocations.push({ teamId: bid.teamId, awarded_fixed: 0, avg_fixed_cost: 0, fixed_costs_total: 0 });
-      continue;
-    }
+const cloneJson = <T>(value: T): T => JSON.parse(JSON.stringify(value)) as T;
 
-    const qty = Math.min(requested, capacity_left);
-    const maxByBudget = bid.budget_cap && bid.bid_price_per_seat > 0
-      ? Math.floor(bid.budget_cap / bid.bid_price_per_seat)
-      : qty;
-    const awarded = Math.max(0, Math.min(qty, maxByBudget));
-    const costTotal = awarded * bid.bid_price_per_seat;
-
-    allocations.push({
-      teamId: bid.teamId,
-      awarded_fixed: awarded,
-      avg_fixed_cost: awarded > 0 ? bid.bid_price_per_seat : 0,
-      fixed_costs_total: costTotal,
-    });
+const emptyLostDemand = (): LostDemand => ({ held_back: 0, no_fixed_quota: 0, pool_exhausted: 0, credit_limit: 0, price_suppressed: 0 });
 
-    capacity_left -= awarded;
-  }
+// Customers who picked the team but were turned away, i.e. everything but price_suppressed.
+export const spillTotal = (lost: LostDemand): number =>
+  lost.held_back + lost.no_fixed_quota + lost.pool_exhausted + lost.credit_limit;
 
-  return { allocations, airline_capacity_used: C_total - capacity_left };
+export function runAuction(config: Config, bids: AuctionBid[]): AuctionResult {
+  return clearAuction(bids, {
+    capacity: config.airline.C_total,
+    mechanism: config.auction?.mechanism,
+    reserve_price: config.auction?.reserve_price,
+  });
 }
 
 export function initRuntime(config: Config, auction: AuctionResult): Runtime {
@@ -105,13 +136,22 @@ export function initRuntime(config: Config, auction: AuctionResult): Runtime {
       cost: fixed_cost_total,
       sales_fix: 0,
       sales_pool: 0,
+      ancillary_revenue: 0,
+      ancillary_cost: 0,
       last_price: teamConfig.P_start,
       fix_hold_quota: 0,
       push_spend: 0,
       tool_cooldown: 0,
-      tool_active: 'none',
+      active_tools: [],
+      cash: (config.budget?.starting_cash ?? 0) - fixed_cost_total,
+      insolvent: false,
+      cash_ledger: [],
+      released_fixed: 0,
+      release_recovered: 0,
       attention_bonus: 1,
       price_history: [],
+      segment_sales: {},
+      spill: emptyLostDemand(),
     };
   }
 
@@ -122,7 +162,7 @@ export function initRuntime(config: Config, auction: AuctionResult): Runtime {
     forecastCum.push(cumulative);
   }
 
-  return {
+  const runtime: Runtime = {
     tick: config.ticks_total,
     P_airline: config.airline.P_airline_start,
     C_remain,
@@ -132,16 +172,172 @@ export function initRuntime(config: Config, auction: AuctionResult): Runtime {
     forecastCum,
     soldCum: Array(config.ticks_total).fill(0),
     collusion_window: [],
+    seat_book: createOrderBook(),
+  };
+  runtime.P_airline = openingPrice(config, runtime);
+  return runtime;
+}
+
+export function serializeRuntime(runtime: Runtime): RuntimeSnapshot {
+  const { rng, ...state } = runtime;
+  return {
+    ...cloneJson(state),
+    version: RUNTIME_SNAPSHOT_VERSION,
+    rng_state: rng.state,
+  };
+}
+
+export function deserializeRuntime(snapshot: RuntimeSnapshot): Runtime {
+  if (snapshot?.version !== RUNTIME_SNAPSHOT_VERSION) {
+    throw new Error(`Unsupported runtime snapshot version: ${snapshot?.version}`);
+  }
+  const { version: _version, rng_state, ...state } = cloneJson(snapshot);
+  const rng = seededRng(0);
+  rng.state = rng_state >>> 0;
+  return { ...state, rng };
+}
+
+type DemandSegment = {
+  id: string;
+  alpha: number;
+  beta: number;
+  loyalty: number;
+  base: number[];
+};
+
+// Without configured segments the whole market behaves as a single segment.
+function resolveSegments(config: Config): DemandSegment[] {
+  const { D_base, alpha, beta, segments } = config.market;
+  if (!segments || segments.length === 0) {
+    return [{ id: 'all', alpha, beta, loyalty: 0, base: D_base }];
+  }
+
+  const totalShare = segments.reduce((sum, segment) => sum + Math.max(0, segment.share), 0) || 1;
+  const totalBase = D_base.reduce((sum, value) => sum + value, 0);
+  return segments.map((segment) => {
+    const share = Math.max(0, segment.share) / totalShare;
+    const curve = D_base.map((value, idx) => value * Math.max(0, segment.booking_curve?.[idx] ?? 1));
+    const curveTotal = curve.reduce((sum, value) => sum + value, 0);
+    const scale = curveTotal > 0 ? totalBase / curveTotal : 0;
+    return {
+      id: segment.id,
+      alpha: segment.alpha ?? alpha,
+      beta: segment.beta ?? beta,
+      loyalty: clamp(segment.loyalty ?? 0, 0, 1),
+      base: curve.map((value) => value * share * scale),
+    };
+  });
+}
+
+type PartySizes = { sizes: number[]; shares: number[]; total: number; mean: number };
+
+function resolvePartySizes(config: Config): PartySizes | undefined {
+  const distribution = (config.market.party_size_distribution ?? []).filter((entry) => entry.share > 0);
+  if (distribution.length === 0) return undefined;
+  if (distribution.some((entry) => !Number.isInteger(entry.size) || entry.size < 1)) {
+    throw new Error('Party sizes must be whole numbers of at least 1');
+  }
+  const total = distribution.reduce((sum, entry) => sum + entry.share, 0);
+  return {
+    sizes: distribution.map((entry) => entry.size),
+    shares: distribution.map((entry) => entry.share),
+    total,
+    mean: distribution.reduce((sum, entry) => sum + entry.size * entry.share, 0) / total,
+  };
+}
+
+function drawPartySize(rng: () => number, parties: PartySizes): number {
+  let r = rng() * parties.total;
+  for (let idx = 0; idx < parties.sizes.length; idx += 1) {
+    r -= parties.shares[idx];
+    if (r <= 0) return parties.sizes[idx];
+  }
+  return parties.sizes[parties.sizes.length - 1];
+}
+
+type MarketConditions = {
+  fired: MarketEvent[];
+  demandMultiplier: number;
+  P_ref: number;
+  capacityDelta: number;
+  priceFloor?: number;
+  priceCeiling?: number;
+};
+
+// Collects the scheduled events that are active on the given countdown tick.
+function resolveMarketConditions(config: Config, tick: number): MarketConditions {
+  const conditions: MarketConditions = {
+    fired: [],
+    demandMultiplier: 1,
+    P_ref: config.market.P_ref,
+    capacityDelta: 0,
   };
+
+  for (const event of config.events ?? []) {
+    const duration = Math.max(1, Math.floor(event.duration ?? 1));
+    const active = tick <= event.tick && tick > event.tick - duration;
+    if (!active) continue;
+    if (tick === event.tick) conditions.fired.push({ ...event });
+
+    switch (event.type) {
+      case 'demand_multiplier':
+        conditions.demandMultiplier *= Math.max(0, event.value);
+        break;
+      case 'p_ref_shift':
+        conditions.P_ref += event.value;
+        break;
+      case 'capacity_change':
+        if (tick === event.tick) conditions.capacityDelta += Math.round(event.value);
+        break;
+      case 'airline_price_floor':
+        conditions.priceFloor = Math.max(conditions.priceFloor ?? -Infinity, event.value);
+        break;
+      case 'airline_price_ceiling':
+        conditions.priceCeiling = Math.min(conditions.priceCeiling ?? Infinity, event.value);
+        break;
+      default:
+        break;
+    }
+  }
+
+  conditions.P_ref = Math.max(1, conditions.P_ref);
+  return conditions;
 }
 
-function demandEffective(config: Config, minPrice: number, tickIndex: number): number {
-  const { D_base, alpha, P_ref } = config.market;
-  const D0 = D_base[tickIndex] ?? 0;
+function demandExpected(
+  conditions: MarketConditions,
+  segment: DemandSegment,
+  minPrice: number,
+  tickIndex: number,
+): number {
+  const { P_ref, demandMultiplier } = conditions;
+  const D0 = (segment.base[tickIndex] ?? 0) * demandMultiplier;
   if (D0 <= 0) return 0;
   const ratio = (minPrice - P_ref) / Math.max(P_ref, 1e-6);
-  const demand = D0 * Math.exp(-alpha * ratio);
-  return Math.max(0, Math.round(demand));
+  return Math.max(0, D0 * Math.exp(-segment.alpha * ratio));
+}
+
+function realizeDemand(config: Config, runtime: Runtime, expected: number): number {
+  const noise = config.market.demand_noise;
+  switch (noise?.mode) {
+    case 'poisson':
+      return samplePoisson(runtime.rng, expected);
+    case 'negative_binomial':
+      return sampleNegativeBinomial(runtime.rng, expected, noise.dispersion ?? 10);
+    default:
+      return Math.round(expected);
+  }
+}
+
+// Spreads each segment's arrivals evenly across the tick so no segment is served first.
+function interleaveArrivals(counts: number[]): number[] {
+  if (counts.length === 1) return Array(counts[0]).fill(0);
+  const keyed: Array<{ segment: number; key: number }> = [];
+  counts.forEach((count, segment) => {
+    for (let k = 0; k < count; k += 1) keyed.push({ segment, key: (k + 0.5) / count });
+  });
+  keyed.sort((a, b) => a.key - b.key || a.segment - b.segment);
+  return keyed.map(({ segment }) => segment);
 }
 
 function buildAttentionMultiplier(decision: Decision | undefined): number {
@@ -153,41 +349,171 @@ function buildAttentionMultiplier(decision: Decision | undefined): number {
   }
 }
 
-function applyToolEffects(tool: ToolChoice | undefined, baseAttention: number): { attention: number; extraCost: number } {
-  switch (tool) {
-    case 'spotlight':
-      return { attention: baseAttention * 1.25, extraCost: 300 };
-    case 'hedge':
-      return { attention: baseAttention * 0.95, extraCost: 150 };
-    case 'commit':
-      return { attention: baseAttention * 1.05, extraCost: 100 };
-    default:
-      return { attention: baseAttention, extraCost: 0 };
+function activateTool(
+  config: Config,
+  runtime: Runtime,
+  team: RuntimeTeamState,
+  tool: ToolDefinition,
+  ledger: CashLedgerEntry,
+): void {
+  const active: ActiveTool = { id: tool.id, ticks_left: Math.max(1, Math.floor(tool.duration_ticks ?? 1)) };
+  if (tool.mechanic === 'lock_pool_price') {
+    active.locked_price = runtime.P_airline;
+  } else if (tool.mechanic === 'reserve_pool_seats') {
+    const seats = Math.min(runtime.C_remain, Math.max(0, Math.floor(tool.seats ?? 0)));
+    runtime.C_remain -= seats;
+    active.reserved_seats = seats;
   }
+  team.active_tools.push(active);
+  team.cost += tool.cost;
+  team.cash -= tool.cost;
+  ledger.tools += tool.cost;
+  team.tool_cooldown = tool.cooldown_ticks ?? config.rules.tool_cooldown_ticks;
 }
 
-function computeLogitWeights(
+function toolAttention(config: Config, team: RuntimeTeamState): number {
+  return team.active_tools.reduce((product, active) => product * (findTool(config, active.id)?.attention ?? 1), 1);
+}
+
+const reservedSeats = (team: RuntimeTeamState) =>
+  team.active_tools.reduce((sum, active) => sum + (active.reserved_seats ?? 0), 0);
+
+// Takes one seat from the team's reservations; false when nothing is reserved.
+function takeReservedSeat(team: RuntimeTeamState): boolean {
+  const active = team.active_tools.find((entry) => (entry.reserved_seats ?? 0) > 0);
+  if (!active) return false;
+  active.reserved_seats = (active.reserved_seats ?? 0) - 1;
+  return true;
+}
+
+function poolPrice(runtime: Runtime, team: RuntimeTeamState): number {
+  const hedge = team.active_tools.find((active) => active.locked_price !== undefined);
+  return hedge?.locked_price ?? runtime.P_airline;
+}
+
+function takeReservedSeats(team: RuntimeTeamState, count: number): void {
+  let left = count;
+  for (const active of team.active_tools) {
+    const taken = Math.min(left, active.reserved_seats ?? 0);
+    if (taken > 0) active.reserved_seats = (active.reserved_seats ?? 0) - taken;
+    left -= taken;
+  }
+}
+
+// Counts down tool timers; expired reservations go back to the shared pool.
+function expireTools(runtime: Runtime): void {
+  for (const team of Object.values(runtime.team)) {
+    for (const active of team.active_tools) active.ticks_left -= 1;
+    for (const expired of team.active_tools.filter((active) => active.ticks_left <= 0)) {
+      runtime.C_remain += expired.reserved_seats ?? 0;
+    }
+    team.active_tools = team.active_tools.filter((active) => active.ticks_left > 0);
+  }
+}
+
+interface LogitTerms {
+  price_gap: number;
+  price_factor: number;
+  loyalty_factor: number;
+  weight: number;
+}
+
+function computeLogitTerms(
   config: Config,
   runtime: Runtime,
   decisions: Decision[],
   minPrice: number,
   attention: Record<TeamId, number>,
-): Map<TeamId, number> {
-  const { beta } = config.market;
+  segment: DemandSegment,
+  externals: ExternalQuote[] = [],
+): Map<TeamId, LogitTerms> {
+  const { beta, loyalty } = segment;
+  const segmentTotal = loyalty > 0
+    ? decisions.reduce((sum, decision) => sum + (runtime.team[decision.teamId]?.segment_sales[segment.id] ?? 0), 0)
+    : 0;
   const priorityBoost = Math.max(1, config.market.price_priority_boost ?? 1);
   const baseline = Math.max(minPrice, 1);
-  const weights = new Map<TeamId, number>();
+  const priceTerms = (price: number) => {
+    const effectivePrice = Math.max(price, 1);
+    const gapRatio = Math.max(0, (effectivePrice - baseline) / baseline);
+    const penalty = gapRatio * priorityBoost;
+    return { price_gap: penalty, price_factor: Math.max(Math.exp(-beta * penalty), 1e-6) };
+  };
+  const terms = new Map<TeamId, LogitTerms>();
   for (const decision of decisions) {
     const team = runtime.team[decision.teamId];
     if (!team) continue;
-    const effectivePrice = Math.max(decision.price, 1);
-    const gapRatio = Math.max(0, (effectivePrice - baseline) / baseline);
-    const penalty = gapRatio * priorityBoost;
-    const base = Math.exp(-beta * penalty);
-    const weighted = Math.max(base, 1e-6) * (attention[decision.teamId] ?? 1);
-    weights.set(decision.teamId, weighted);
+    const { price_gap, price_factor } = priceTerms(decision.price);
+    const loyaltyPull = segmentTotal > 0 ? 1 + loyalty * ((team.segment_sales[segment.id] ?? 0) / segmentTotal) : 1;
+    terms.set(decision.teamId, {
+      price_gap,
+      price_factor,
+      loyalty_factor: loyaltyPull,
+      weight: price_factor * (attention[decision.teamId] ?? 1) * loyaltyPull,
+    });
   }
-  return weights;
+  // External competitors earn no loyalty and are not pushed, taxed or penalized
+  for (const quote of externals) {
+    const { price_gap, price_factor } = priceTerms(quote.price);
+    terms.set(quote.id, { price_gap, price_factor, loyalty_factor: 1, weight: price_factor * quote.attention });
+  }
+  return terms;
+}
+
+function computeLogitWeights(
+  config: Config,
+  runtime: Runtime,
+  decisions: Decision[],
+  minPrice: number,
+  attention: Record<TeamId, number>,
+  segment: DemandSegment,
+  externals: ExternalQuote[] = [],
+): Map<TeamId, number> {
+  const terms = computeLogitTerms(config, runtime, decisions, minPrice, attention, segment, externals);
+  return new Map(Array.from(terms, ([teamId, entry]) => [teamId, entry.weight]));
+}
+
+// Collects the factors behind each team's share; segments are mixed by expected demand.
+function explainShares(
+  config: Config,
+  runtime: Runtime,
+  decisions: Decision[],
+  minPrice: number,
+  attention: Record<TeamId, number>,
+  factors: { push: Record<TeamId, number>; tool: Record<TeamId, number>; collusion: Record<TeamId, number> },
+  segments: DemandSegment[],
+  segmentExpected: number[],
+  externals: ExternalQuote[],
+): ShareExplanation[] {
+  const expectedTotal = segmentExpected.reduce((sum, value) => sum + value, 0);
+  const mix = segmentExpected.map((value) => (expectedTotal > 0 ? value / expectedTotal : 1 / segments.length));
+  const explanations = new Map<TeamId, ShareExplanation>(decisions.map((decision) => [decision.teamId, {
+    teamId: decision.teamId,
+    price: decision.price,
+    price_gap: 0,
+    price_factor: 0,
+    push_factor: factors.push[decision.teamId] ?? 1,
+    tool_factor: factors.tool[decision.teamId] ?? 1,
+    collusion_penalty: factors.collusion[decision.teamId] ?? 1,
+    loyalty_factor: 0,
+    weight: 0,
+    expected_share: 0,
+  }]));
+
+  segments.forEach((segment, idx) => {
+    const terms = computeLogitTerms(config, runtime, decisions, minPrice, attention, segment, externals);
+    const weightSum = Array.from(terms.values()).reduce((sum, entry) => sum + entry.weight, 0) || 1;
+    for (const [teamId, entry] of terms) {
+      const explanation = explanations.get(teamId);
+      if (!explanation) continue;
+      explanation.price_gap = entry.price_gap;
+      explanation.price_factor += mix[idx] * entry.price_factor;
+      explanation.loyalty_factor += mix[idx] * entry.loyalty_factor;
+      explanation.weight += mix[idx] * entry.weight;
+      explanation.expected_share += mix[idx] * (entry.weight / weightSum);
+    }
+  });
+  return Array.from(explanations.values());
 }
 
 function computeCollusionPenalty(
@@ -224,7 +550,12 @@ function computeCollusionPenalty(
   return penalties;
 }
 
-function applyPushCosts(config: Config, runtime: Runtime, decisions: Decision[]): void {
+function applyPushCosts(
+  config: Config,
+  runtime: Runtime,
+  decisions: Decision[],
+  ledger: Record<TeamId, CashLedgerEntry>,
+): void {
   for (const decision of decisions) {
     const team = runtime.team[decision.teamId];
     if (!team) continue;
@@ -234,19 +565,348 @@ function applyPushCosts(config: Config, runtime: Runtime, decisions: Decision[])
     if (pushCost > 0) {
       team.cost += pushCost;
       team.push_spend += pushCost;
+      team.cash -= pushCost;
+      ledger[decision.teamId].push += pushCost;
     }
   }
 }
 
-function enforcePriceConstraints(config: Config, runtime: Runtime, decision: Decision): number {
-  const teamCfg = config.teams.find((team) => team.id === decision.teamId);
-  if (!teamCfg) return decision.price;
-  const teamState = runtime.team[decision.teamId];
-  const floor = teamCfg.P_floor;
-  const ceil = teamCfg.P_ceil;
-  let target = clamp(decision.price, floor, ceil);
+function activeReleaseTerm(config: Config, tick: number): ReleaseTerm | undefined {
+  return (config.rules.release ?? [])
+    .filter((term) => tick >= term.until_tick)
+    .sort((a, b) => b.until_tick - a.until_tick)[0];
+}
+
+// Hands fixed seats back to the pool; requests outside every release window are ignored.
+function releaseFixedSeats(
+  config: Config,
+  runtime: Runtime,
+  decisions: Decision[],
+  ledger: Record<TeamId, CashLedgerEntry>,
+): void {
+  const term = activeReleaseTerm(config, runtime.tick);
+  if (!term) return;
+  for (const decision of decisions) {
+    const team = runtime.team[decision.teamId];
+    const seats = Math.min(team.fixed_left, decision.release_fixed ?? 0);
+    if (seats <= 0) continue;
+    const refund = seats * team.avg_fixed_cost * clamp(term.refund_pct, 0, 100) / 100;
+    const net = refund - seats * (term.penalty_per_seat ?? 0);
+    team.fixed_left -= seats;
+    runtime.C_remain += seats;
+    team.cost -= net;
+    team.cash += net;
+    team.released_fixed += seats;
+    team.release_recovered += net;
+    ledger[decision.teamId].releases += net;
+  }
+}
+
+// Cash each team may still spend on seat trades under config.budget; no limit without a budget.
+export function spendableCash(config: Config, runtime: Runtime): Record<TeamId, number> | undefined {
+  if (!config.budget) return undefined;
+  const creditLine = config.budget.credit_line ?? 0;
+  return Object.fromEntries(Object.values(runtime.team).map((team) => [team.teamId, team.cash + creditLine]));
+}
+
+// Posts this tick's secondary-market orders, crosses the book and settles the trades.
+function tradeFixedSeats(
+  config: Config,
+  runtime: Runtime,
+  decisions: Decision[],
+  ledger: Record<TeamId, CashLedgerEntry>,
+): SeatTrade[] {
+  for (const decision of decisions) {
+    if (decision.cancel_seat_orders) cancelSeatOrders(runtime.seat_book, decision.teamId);
+    for (const request of decision.seat_orders ?? []) {
+      postSeatOrder(runtime.seat_book, decision.teamId, request, runtime.tick);
+    }
+  }
+
+  const trades = matchSeatOrders(runtime.seat_book, runtime.team, runtime.tick, spendableCash(config, runtime));
+  for (const trade of trades) {
+    const amount = trade.quantity * trade.price;
+    const buyer = runtime.team[trade.buyer];
+    const seller = runtime.team[trade.seller];
+    buyer.cost += amount;
+    buyer.cash -= amount;
+    seller.cost -= amount;
+    seller.cash += amount;
+    ledger[trade.buyer].seat_trades -= amount;
+    ledger[trade.seller].seat_trades += amount;
+  }
+  return trades;
+}
+
+type SaleRecord = {
+  sold_fix: number;
+  sold_pool: number;
+  revenue: number;
+  cost: number;
+  ancillary_revenue: number;
+  ancillary_cost: number;
+};
+
+// Books `count` sales of one team through one channel, with their expected ancillaries; the
+// per-customer loop books them one party at a time. team.cost takes what the sale spends now
+// (pool seats, ancillaries); fixed seats were costed when they were bought in initRuntime. The
+// sale record's cost also carries the fixed seats' average cost, as the cost of goods sold.
+function recordSales(
+  runtime: Runtime,
+  decision: Decision,
+  saleRecord: SaleRecord,
+  ledger: CashLedgerEntry,
+  channel: 'fix' | 'pool',
+  count: number,
+  ancillary: AncillaryQuote,
+): void {
+  if (count <= 0) return;
+  const team = runtime.team[decision.teamId];
+  const buy = channel === 'fix' ? team.avg_fixed_cost : poolPrice(runtime, team);
+  const ticketRevenue = decision.price * count;
+  const extraRevenue = ancillary.revenue * count;
+  const extraCost = ancillary.cost * count;
+  const revenue = ticketRevenue + extraRevenue;
+  team.revenue += revenue;
+  team.ancillary_revenue += extraRevenue;
+  team.ancillary_cost += extraCost;
+  team.cost += extraCost;
+  team.cash += extraRevenue - extraCost;
+  ledger.sales += revenue;
+  ledger.ancillary_costs += extraCost;
+  saleRecord.revenue += revenue;
+  saleRecord.cost += buy * count + extraCost;
+  saleRecord.ancillary_revenue += extraRevenue;
+  saleRecord.ancillary_cost += extraCost;
+  if (channel === 'fix') {
+    team.fixed_left -= count;
+    team.sales_fix += count;
+    team.cash += ticketRevenue;
+    saleRecord.sold_fix += count;
+  } else {
+    team.sales_pool += count;
+    team.cost += buy * count;
+    team.cash += ticketRevenue - buy * count;
+    ledger.pool_purchases += buy * count;
+    saleRecord.sold_pool += count;
+  }
+  for (let i = 0; i < count; i += 1) {
+    runtime.sold_history.push({ teamId: decision.teamId, price: decision.price, buy });
+  }
+}
+
+// Largest-remainder split of `capacity` across requests; all requests are granted when they fit.
+function shareCapacity(requests: number[], capacity: number): number[] {
+  const total = requests.reduce((sum, value) => sum + value, 0);
+  if (total <= capacity) return [...requests];
+  const exact = requests.map((value) => (value * capacity) / total);
+  const granted = exact.map(Math.floor);
+  let left = capacity - granted.reduce((sum, value) => sum + value, 0);
+  const byRemainder = exact
+    .map((value, idx) => ({ idx, remainder: value - granted[idx] }))
+    .sort((a, b) => b.remainder - a.remainder || a.idx - b.idx);
+  for (const { idx } of byRemainder) {
+    if (left <= 0) break;
+    granted[idx] += 1;
+    left -= 1;
+  }
+  return granted;
+}
+
+// Pool sales a team can fund before the credit line blocks it; each sale nets price - buy.
+function affordablePoolSales(config: Config, cash: number, price: number, buy: number, limit: number): number {
+  if (!config.budget) return limit;
+  const headroom = cash + (config.budget.credit_line ?? 0) - buy;
+  if (headroom < 0) return 0;
+  if (price >= buy) return limit;
+  return Math.min(limit, Math.floor(headroom / (buy - price)) + 1);
+}
+
+type SaleContext = {
+  segments: DemandSegment[];
+  segmentDemand: number[];
+  segmentWeights: { weights: Map<TeamId, number> }[];
+  fixQuota: Record<TeamId, number>;
+  salesToday: Map<TeamId, SaleRecord>;
+  lostToday: Map<TeamId, LostDemand>;
+  segmentSales: { sold: number; absorbed: number; sales: Record<TeamId, number> }[];
+  trackSegments: boolean;
+  ledger: Record<TeamId, CashLedgerEntry>;
+  externalSales: Map<string, number>;   // seats absorbed by each external competitor
+  groupLosses: Map<TeamId, { parties: number; seats: number }>;
+  P_ref: number;              // this tick's reference price, for ancillary attach rates
+};
+
+// market.allocation = 'multinomial': one multinomial draw per segment gives each team's
+// customers, then fixed quota, reserved seats, the shared pool (split pro rata when short)
+// and the credit line are settled arithmetically instead of customer by customer.
+function allocateMultinomial(config: Config, runtime: Runtime, decisions: Decision[], ctx: SaleContext): void {
+  const externalIds = Array.from(ctx.externalSales.keys());
+  const segmentPicks = ctx.segmentWeights.map(({ weights }, idx) =>
+    sampleMultinomial(runtime.rng, ctx.segmentDemand[idx], [
+      ...decisions.map((decision) => weights.get(decision.teamId) ?? 0),
+      ...externalIds.map((id) => weights.get(id) ?? 0),
+    ]));
+  const picks = decisions.map((_, t) => segmentPicks.reduce((sum, counts) => sum + counts[t], 0));
+  externalIds.forEach((id, e) => {
+    segmentPicks.forEach((counts, idx) => {
+      ctx.externalSales.set(id, ctx.externalSales.get(id)! + counts[decisions.length + e]);
+      ctx.segmentSales[idx].absorbed += counts[decisions.length + e];
+    });
+  });
+
+  const plans = decisions.map((decision, t) => {
+    const team = runtime.team[decision.teamId];
+    const fix = Math.min(picks[t], ctx.fixQuota[decision.teamId], team.fixed_left);
+    const rest = picks[t] - fix;
+    const buy = poolPrice(runtime, team);
+    const want = affordablePoolSales(config, team.cash + fix * decision.price, decision.price, buy, rest);
+    const reserved = Math.min(want, reservedSeats(team));
+    return { fix, rest, want, reserved };
+  });
+  const shared = shareCapacity(plans.map((plan) => plan.want - plan.reserved), Math.max(0, runtime.C_remain));
+
+  decisions.forEach((decision, t) => {
+    const team = runtime.team[decision.teamId];
+    const { fix, rest, want, reserved } = plans[t];
+    const ledger = ctx.ledger[decision.teamId];
+    const saleRecord = ctx.salesToday.get(decision.teamId)!;
+    const ancillary = quoteAncillaries(config, decision, ctx.P_ref);
+    recordSales(runtime, decision, saleRecord, ledger, 'fix', fix, ancillary);
+    takeReservedSeats(team, reserved);
+    runtime.C_remain -= shared[t];
+    const pool = reserved + shared[t];
+    recordSales(runtime, decision, saleRecord, ledger, 'pool', pool, ancillary);
+
+    const lost = ctx.lostToday.get(decision.teamId)!;
+    if (team.fixed_left > 0) {
+      lost.held_back += rest - pool;
+    } else {
+      lost.pool_exhausted += want - pool;
+      lost.credit_limit += rest - want;
+    }
+
+    if (ctx.trackSegments) {
+      const sold = shareCapacity(segmentPicks.map((counts) => counts[t]), fix + pool);
+      sold.forEach((count, idx) => {
+        if (count <= 0) return;
+        const segmentId = ctx.segments[idx].id;
+        const record = ctx.segmentSales[idx];
+        record.sold += count;
+        record.sales[decision.teamId] = (record.sales[decision.teamId] ?? 0) + count;
+        team.segment_sales[segmentId] = (team.segment_sales[segmentId] ?? 0) + count;
+      });
+    }
+  });
+}
+
+// Lets one party pick a team by logit weight and seats it all-or-nothing, fixed quota first and
+// the rest from the pool, or records why it was lost; external competitors simply absorb it.
+// Returns undefined when no team is on the board.
+function serveCustomer(
+  config: Config,
+  runtime: Runtime,
+  ctx: SaleContext,
+  quotaUsed: Record<TeamId, number>,
+  segmentIndex: number,
+  board: Map<TeamId, Decision>,
+  { weights, weightSum }: { weights: Map<TeamId, number>; weightSum: number },
+  seats = 1,
+): { teamId: TeamId; outcome: Arrival['outcome'] } | undefined {
+  let r = runtime.rng() * weightSum;
+  let chosenTeamId: TeamId | undefined;
+  for (const [teamId, w] of weights.entries()) {
+    r -= w;
+    if (r <= 0) {
+      chosenTeamId = teamId;
+      break;
+    }
+  }
+  if (!chosenTeamId) chosenTeamId = Array.from(board.keys()).pop();
+  if (!chosenTeamId) return undefined;
+
+  const absorbed = ctx.externalSales.get(chosenTeamId);
+  if (absorbed !== undefined) {
+    ctx.externalSales.set(chosenTeamId, absorbed + seats);
+    ctx.segmentSales[segmentIndex].absorbed += seats;
+    return { teamId: chosenTeamId, outcome: 'external' };
+  }
+
+  const decision = board.get(chosenTeamId)!;
+  const team = runtime.team[chosenTeamId];
+  const saleRecord = ctx.salesToday.get(chosenTeamId)!;
+
+  const quotaLeft = Math.min(ctx.fixQuota[chosenTeamId] - quotaUsed[chosenTeamId], team.fixed_left);
+  const fromFix = Math.min(seats, Math.max(0, quotaLeft));
+  const fromPool = seats - fromFix;
+  const poolCovers = (count: number) => count === 0 || (runtime.C_remain + reservedSeats(team) >= count
+    && canSpend(config, team, poolPrice(runtime, team) * count));
+  const seated = poolCovers(fromPool);
+
+  if (seated) {
+    if (ctx.trackSegments) {
+      const segmentId = ctx.segments[segmentIndex].id;
+      const record = ctx.segmentSales[segmentIndex];
+      record.sold += seats;
+      record.sales[chosenTeamId] = (record.sales[chosenTeamId] ?? 0) + seats;
+      team.segment_sales[segmentId] = (team.segment_sales[segmentId] ?? 0) + seats;
+    }
+    const ancillary = quoteAncillaries(config, decision, ctx.P_ref);
+    quotaUsed[chosenTeamId] += fromFix;
+    recordSales(runtime, decision, saleRecord, ctx.ledger[chosenTeamId], 'fix', fromFix, ancillary);
+    for (let k = 0; k < fromPool; k += 1) {
+      if (!takeReservedSeat(team)) runtime.C_remain -= 1;
+    }
+    recordSales(runtime, decision, saleRecord, ctx.ledger[chosenTeamId], 'pool', fromPool, ancillary);
+    return { teamId: chosenTeamId, outcome: fromPool > 0 ? 'pool' : 'fix' };
+  }
+
+  const lost = ctx.lostToday.get(chosenTeamId)!;
+  // Held back only if the party would have fit without the hold; otherwise the pool was short or unaffordable
+  const unheldPool = seats - Math.min(seats, team.fixed_left);
+  if (fromPool > unheldPool && poolCovers(unheldPool)) lost.held_back += seats;
+  else if (runtime.C_remain + reservedSeats(team) < unheldPool) lost.pool_exhausted += seats;
+  else if (!canSpend(config, team, poolPrice(runtime, team) * unheldPool)) lost.credit_limit += seats;
+  else lost.no_fixed_quota += seats;
+  if (seats > 1) {
+    const group = ctx.groupLosses.get(chosenTeamId) ?? { parties: 0, seats: 0 };
+    group.parties += 1;
+    group.seats += seats;
+    ctx.groupLosses.set(chosenTeamId, group);
+  }
+  return { teamId: chosenTeamId, outcome: 'lost' };
+}
+
+// Without a budget nothing is blocked; cash is still tracked for reporting.
+function canSpend(config: Config, team: RuntimeTeamState, amount: number): boolean {
+  if (!config.budget) return true;
+  return team.cash - amount >= -(config.budget.credit_line ?? 0);
+}
+
+function settleCash(config: Config, runtime: Runtime, ledger: Record<TeamId, CashLedgerEntry>): void {
+  const budget = config.budget;
+  for (const [teamId, entry] of Object.entries(ledger)) {
+    const team = runtime.team[teamId];
+    if (budget && team.cash < 0) {
+      const interest = -team.cash * (budget.interest_rate ?? 0);
+      team.cash -= interest;
+      team.cost += interest;
+      entry.interest = interest;
+    }
+    if (budget && team.cash < (budget.insolvency_threshold ?? -(budget.credit_line ?? 0))) {
+      team.insolvent = true;
+    }
+    entry.closing = team.cash;
+    team.cash_ledger.push(entry);
+  }
+}
+
+// Keeps `price` within the team's floor and ceiling and at most price_jump_threshold away from `previous`.
+function stepPrice(config: Config, teamId: TeamId, price: number, previous: number): number {
+  const teamCfg = config.teams.find((team) => team.id === teamId);
+  if (!teamCfg) return price;
+  let target = clamp(price, teamCfg.P_floor, teamCfg.P_ceil);
   const threshold = config.rules.price_jump_threshold;
-  const previous = teamState.last_price;
   if (previous > 0 && threshold > 0) {
     const maxChange = previous * threshold;
     if (Math.abs(target - previous) > maxChange) {
@@ -256,19 +916,25 @@ function enforcePriceConstraints(config: Config, runtime: Runtime, decision: Dec
   return Math.round(target);
 }
 
+function enforcePriceConstraints(config: Config, runtime: Runtime, decision: Decision): number {
+  return stepPrice(config, decision.teamId, decision.price, runtime.team[decision.teamId].last_price);
+}
+
+// Intra-tick reprices sorted by time, each stepped from the board price before it (the tick
+// opens at `opening`) so the jump limit holds within the tick; changes outside the window are dropped.
+function sanitizePriceChanges(config: Config, decision: Decision, opening: number): PriceChange[] {
+  let board = opening;
+  return (decision.price_changes ?? [])
+    .filter((change) => change.at > 0 && change.at < config.seconds_per_tick && Number.isFinite(change.price))
+    .sort((a, b) => a.at - b.at)
+    .map((change) => {
+      board = stepPrice(config, decision.teamId, change.price, board);
+      return { at: change.at, price: board };
+    });
+}
+
 export function airlineReprice(config: Config, runtime: Runtime): number {
-  const { P_min, P_max, gamma, kappa } = config.airline;
-  const index = config.ticks_total - runtime.tick;
-  const sold = runtime.soldCum[index] ?? 0;
-  const forecast = runtime.forecastCum[index] ?? 0;
-  const delta = sold - forecast;
-  const pressure = Math.tanh(delta / Math.max(kappa, 1e-6));
-  const current = runtime.P_airline;
-  const headroomUp = Math.max(0, P_max - current);
-  const headroomDown = Math.max(0, current - P_min);
-  const appliedHeadroom = pressure >= 0 ? headroomUp : headroomDown;
-  const change = appliedHeadroom * gamma * pressure;
-  return clamp(current + change, P_min, P_max);
+  return clamp(policyPrice(config, runtime), config.airline.P_min, config.airline.P_max);
 }
 
 export function runTick(
@@ -280,6 +946,22 @@ export function runTick(
     throw new Error('No ticks remaining – runTick called after schedule end');
   }
 
+  const conditions = resolveMarketConditions(config, runtime.tick);
+  if (conditions.capacityDelta !== 0) {
+    runtime.C_remain = Math.max(0, runtime.C_remain + conditions.capacityDelta);
+  }
+  if (conditions.priceFloor !== undefined) runtime.P_airline = Math.max(runtime.P_airline, conditions.priceFloor);
+  if (conditions.priceCeiling !== undefined) runtime.P_airline = Math.min(runtime.P_airline, conditions.priceCeiling);
+  const continuous = config.market.arrivals === 'continuous';
+  const perCustomer = (config.market.allocation ?? 'per_customer') === 'per_customer';
+  if (continuous && !perCustomer) {
+    throw new Error('Continuous arrivals need market.allocation per_customer');
+  }
+  const partySizes = resolvePartySizes(config);
+  if (partySizes && !perCustomer) {
+    throw new Error('Party sizes need market.allocation per_customer');
+  }
+
   const sanitized: Decision[] = decisions.map((decision) => {
     const team = runtime.team[decision.teamId];
     if (!team) {
@@ -289,6 +971,12 @@ export function runTick(
     const price = enforcePriceConstraints(config, runtime, decision);
     const fix_hold_pct = clamp(decision.fix_hold_pct ?? 0, 0, 100);
     const tool_choice: ToolChoice = decision.tool ?? 'none';
+    if (tool_choice !== 'none' && !findTool(config, tool_choice)) {
+      throw new Error(`Unknown tool: ${tool_choice}`);
+    }
+    // Prices for ancillaries the config no longer sells are stale, not an error: they are dropped
+    const ancillary_prices = Object.fromEntries(Object.entries(decision.ancillary_prices ?? {})
+      .filter(([id]) => (config.ancillaries ?? []).some((product) => product.id === id)));
 
     return {
       teamId: decision.teamId,
@@ -296,44 +984,100 @@ export function runTick(
       push_level: decision.push_level ?? 0,
       fix_hold_pct,
       tool: tool_choice,
+      release_fixed: Math.max(0, Math.floor(decision.release_fixed ?? 0)),
+      seat_orders: decision.seat_orders ?? [],
+      cancel_seat_orders: decision.cancel_seat_orders ?? false,
+      price_changes: continuous ? sanitizePriceChanges(config, decision, price) : [],
+      ancillary_prices,
     };
   });
 
-  const priceBoard = sanitized.map(({ teamId, price }) => ({ teamId, price }));
+  const externals = quoteExternalCompetitors(config, runtime);
+  const priceBoard: MarketSnapshot['price_board'] = [
+    ...sanitized.map(({ teamId, price }) => ({ teamId, price })),
+    ...externals.map(({ id, price }) => ({ teamId: id, price, external: true })),
+  ];
   const minPrice = Math.min(...priceBoard.map((entry) => entry.price));
   const tickIndex = config.ticks_total - runtime.tick;
-  const demand = demandEffective(config, minPrice, tickIndex);
+  const segments = resolveSegments(config);
+  // Batch ticks are a single epoch holding the whole window
+  const externalMin = Math.min(...externals.map((quote) => quote.price));
+  const epochs = continuous
+    ? priceEpochs(sanitized, config.seconds_per_tick).map((epoch) => ({ ...epoch, minPrice: Math.min(epoch.minPrice, externalMin) }))
+    : [{ start: 0, end: 1, decisions: sanitized, minPrice }];
+  const intensity = segments.map((segment) => {
+    const from = segment.base[tickIndex] ?? 0;
+    return { from, to: segment.base[tickIndex + 1] ?? from };
+  });
+  const epochExpected = epochs.map((epoch) => segments.map((segment, idx) => {
+    const expected = demandExpected(conditions, segment, epoch.minPrice, tickIndex);
+    return continuous ? expected * intensityShare(intensity[idx].from, intensity[idx].to, epoch.start, epoch.end) : expected;
+  }));
+  const segmentExpected = segments.map((_, idx) => epochExpected.reduce((sum, row) => sum + row[idx], 0));
+  // Parties per segment, as seat counts; demand is realized in parties of the mean size
+  const segmentParties = segmentExpected.map((expected) => {
+    if (!partySizes) return Array<number>(realizeDemand(config, runtime, expected)).fill(1);
+    const parties = realizeDemand(config, runtime, expected / partySizes.mean);
+    return Array.from({ length: parties }, () => drawPartySize(runtime.rng, partySizes));
+  });
+  const segmentDemand = segmentParties.map((parties) => parties.reduce((sum, seats) => sum + seats, 0));
+  const demand = segmentDemand.reduce((sum, value) => sum + value, 0);
 
   const attention: Record<TeamId, number> = {};
+  const pushFactor: Record<TeamId, number> = {};
+  const toolFactor: Record<TeamId, number> = {};
+  const ledger: Record<TeamId, CashLedgerEntry> = {};
+  for (const decision of sanitized) {
+    ledger[decision.teamId] = {
+      tick: runtime.tick,
+      opening: runtime.team[decision.teamId].cash,
+      sales: 0,
+      pool_purchases: 0,
+      ancillary_costs: 0,
+      push: 0,
+      tools: 0,
+      releases: 0,
+      seat_trades: 0,
+      interest: 0,
+      closing: 0,
+    };
+  }
+  releaseFixedSeats(config, runtime, sanitized, ledger);
+  const seatTrades = tradeFixedSeats(config, runtime, sanitized, ledger);
 
   for (const decision of sanitized) {
     const team = runtime.team[decision.teamId];
     team.price_history.push(decision.price);
     team.last_price = decision.price;
 
-    const base = buildAttentionMultiplier(decision);
-    const toolState = team.tool_cooldown > 0 ? 'none' : decision.tool;
-    const { attention: attBoost, extraCost } = applyToolEffects(toolState, base);
-    attention[decision.teamId] = attBoost;
-
-    team.tool_active = toolState;
+    const toolId = team.tool_cooldown > 0 ? 'none' : decision.tool ?? 'none';
     if (team.tool_cooldown > 0) team.tool_cooldown -= 1;
-    if (toolState !== 'none') {
-      team.tool_cooldown = config.rules.tool_cooldown_ticks;
-      if (extraCost > 0) {
-        team.cost += extraCost;
-      }
+    const tool = toolId !== 'none' ? findTool(config, toolId) : undefined;
+    if (tool && !team.active_tools.some((active) => active.id === tool.id) && canSpend(config, team, tool.cost)) {
+      activateTool(config, runtime, team, tool, ledger[decision.teamId]);
     }
+    pushFactor[decision.teamId] = buildAttentionMultiplier(decision);
+    toolFactor[decision.teamId] = toolAttention(config, team);
+    attention[decision.teamId] = pushFactor[decision.teamId] * toolFactor[decision.teamId];
   }
 
-  applyPushCosts(config, runtime, sanitized);
+  applyPushCosts(config, runtime, sanitized, ledger);
   const collusionPenalty = computeCollusionPenalty(config, runtime, sanitized);
   for (const teamId of Object.keys(collusionPenalty)) {
     attention[teamId] = (attention[teamId] ?? 1) * collusionPenalty[teamId];
   }
 
-  const weights = computeLogitWeights(config, runtime, sanitized, minPrice, attention);
-  const weightSum = Array.from(weights.values()).reduce((sum, value) => sum + value, 0) || 1;
+  const explain = config.market.explain
+    ? explainShares(config, runtime, sanitized, minPrice, attention,
+      { push: pushFactor, tool: toolFactor, collusion: collusionPenalty }, segments, segmentExpected, externals)
+    : undefined;
+
+  const epochWeights = epochs.map((epoch) => segments.map((segment) => {
+    const weights = computeLogitWeights(config, runtime, epoch.decisions, epoch.minPrice, attention, segment, externals);
+    const weightSum = Array.from(weights.values()).reduce((sum, value) => sum + value, 0) || 1;
+    return { weights, weightSum };
+  }));
+  const segmentWeights = epochWeights[0];
 
   const fixQuota: Record<TeamId, number> = {};
   const quotaUsed: Record<TeamId, number> = {};
@@ -348,70 +1092,119 @@ export function runTick(
     team.price = decision.price;
   }
 
-  const salesToday = new Map<TeamId, { sold_fix: number; sold_pool: number; revenue: number; cost: number }>();
+  const salesToday = new Map<TeamId, SaleRecord>();
+  const lostToday = new Map<TeamId, LostDemand>();
   sanitized.forEach((decision) => {
-    salesToday.set(decision.teamId, { sold_fix: 0, sold_pool: 0, revenue: 0, cost: 0 });
+    salesToday.set(decision.teamId, { sold_fix: 0, sold_pool: 0, revenue: 0, cost: 0, ancillary_revenue: 0, ancillary_cost: 0 });
+    lostToday.set(decision.teamId, emptyLostDemand());
   });
 
-  for (let n = 0; n < demand; n += 1) {
-    let r = runtime.rng() * weightSum;
-    let chosenTeamId: TeamId | undefined;
-    for (const [teamId, w] of weights.entries()) {
-      r -= w;
-      if (r <= 0) {
-        chosenTeamId = teamId;
-        break;
+  // Demand priced out relative to P_ref, attributed by each team's expected share.
+  segments.forEach((segment, idx) => {
+    const atReference = demandExpected(conditions, segment, conditions.P_ref, tickIndex);
+    const suppressed = Math.max(0, atReference - segmentExpected[idx]);
+    if (suppressed <= 0) return;
+    const { weights, weightSum } = segmentWeights[idx];
+    for (const [teamId, weight] of weights) {
+      const lost = lostToday.get(teamId);
+      if (lost) lost.price_suppressed += suppressed * (weight / weightSum);
+    }
+  });
+
+  const trackSegments = (config.market.segments?.length ?? 0) > 0;
+  const segmentSales = segments.map(() => ({ sold: 0, absorbed: 0, sales: {} as Record<TeamId, number> }));
+
+  const saleContext: SaleContext = {
+    segments,
+    segmentDemand,
+    segmentWeights,
+    fixQuota,
+    salesToday,
+    lostToday,
+    segmentSales,
+    trackSegments,
+    ledger,
+    externalSales: new Map(externals.map((quote) => [quote.id, 0])),
+    groupLosses: new Map(),
+    P_ref: conditions.P_ref,
+  };
+  if (!perCustomer) {
+    allocateMultinomial(config, runtime, sanitized, saleContext);
+  }
+
+  const boards = epochs.map((epoch) => new Map(epoch.decisions.map((decision) => [decision.teamId, decision])));
+  const arrivals: Arrival[] = [];
+  if (continuous) {
+    // Each customer falls into an epoch by its expected demand there, then gets a time inside it
+    const timeline: { at: number; segment: number; epoch: number; seats: number }[] = [];
+    segmentParties.forEach((parties, segment) => {
+      const { from, to } = intensity[segment];
+      for (const seats of parties) {
+        let r = runtime.rng() * segmentExpected[segment];
+        let epoch = 0;
+        while (epoch < epochs.length - 1 && r > epochExpected[epoch][segment]) {
+          r -= epochExpected[epoch][segment];
+          epoch += 1;
+        }
+        const at = sampleArrivalTime(runtime.rng, from, to, epochs[epoch].start, epochs[epoch].end);
+        timeline.push({ at, segment, epoch, seats });
       }
+    });
+    timeline.sort((a, b) => a.at - b.at || a.segment - b.segment);
+    for (const { at, segment, epoch, seats } of timeline) {
+      const served = serveCustomer(config, runtime, saleContext, quotaUsed, segment, boards[epoch], epochWeights[epoch][segment], seats);
+      if (!served) break;
+      arrivals.push({
+        at: at * config.seconds_per_tick,
+        segmentId: segments[segment].id,
+        teamId: served.teamId,
+        price: boards[epoch].get(served.teamId)?.price ?? externals.find((quote) => quote.id === served.teamId)!.price,
+        seats,
+        outcome: served.outcome,
+      });
     }
-    if (!chosenTeamId) chosenTeamId = sanitized[sanitized.length - 1]?.teamId ?? sanitized[0]?.teamId;
-    if (!chosenTeamId) break;
-
-    const decision = sanitized.find((d) => d.teamId === chosenTeamId)!;
-    const team = runtime.team[chosenTeamId];
-    const saleRecord = salesToday.get(chosenTeamId)!;
-
-    const quota = fixQuota[chosenTeamId];
-    const used = quotaUsed[chosenTeamId];
-
-    if (quota > 0 && used < quota && team.fixed_left > 0) {
-      quotaUsed[chosenTeamId] += 1;
-      team.fixed_left -= 1;
-      team.sales_fix += 1;
-      team.revenue += decision.price;
-      saleRecord.sold_fix += 1;
-      saleRecord.revenue += decision.price;
-      saleRecord.cost += team.avg_fixed_cost;
-      runtime.sold_history.push({ teamId: chosenTeamId, price: decision.price, buy: team.avg_fixed_cost });
-    } else if (runtime.C_remain > 0) {
-      runtime.C_remain -= 1;
-      team.sales_pool += 1;
-      team.revenue += decision.price;
-      team.cost += runtime.P_airline;
-      saleRecord.sold_pool += 1;
-      saleRecord.revenue += decision.price;
-      saleRecord.cost += runtime.P_airline;
-      runtime.sold_history.push({ teamId: chosenTeamId, price: decision.price, buy: runtime.P_airline });
-    } else {
-      // demand lost due to no capacity
+    // The closing board carries into the next tick
+    for (const decision of epochs[epochs.length - 1].decisions) {
+      const team = runtime.team[decision.teamId];
+      team.price = decision.price;
+      team.last_price = decision.price;
+    }
+  } else if (perCustomer) {
+    const nextParty = segments.map(() => 0);
+    for (const segmentIndex of interleaveArrivals(segmentParties.map((parties) => parties.length))) {
+      const seats = segmentParties[segmentIndex][nextParty[segmentIndex]];
+      nextParty[segmentIndex] += 1;
+      const served = serveCustomer(config, runtime, saleContext, quotaUsed, segmentIndex, boards[0], segmentWeights[segmentIndex], seats);
+      if (!served) break;
     }
   }
 
+  for (const [teamId, lost] of lostToday) {
+    const spill = runtime.team[teamId].spill;
+    spill.held_back += lost.held_back;
+    spill.no_fixed_quota += lost.no_fixed_quota;
+    spill.pool_exhausted += lost.pool_exhausted;
+    spill.credit_limit += lost.credit_limit;
+    spill.price_suppressed += lost.price_suppressed;
+  }
+
+  expireTools(runtime);
+  settleCash(config, runtime, ledger);
+
   const demand_realized = Array.from(salesToday.values())
     .reduce((sum, entry) => sum + entry.sold_fix + entry.sold_pool, 0);
-  const demand_lost = Math.max(0, demand - demand_realized);
+  const absorbed = Array.from(saleContext.externalSales.values()).reduce((sum, value) => sum + value, 0);
+  const demand_lost = Math.max(0, demand - demand_realized - absorbed);
 
   const previousSold = tickIndex > 0 ? runtime.soldCum[tickIndex - 1] : 0;
   runtime.soldCum[tickIndex] = previousSold + demand_realized;
 
-  for (const [teamId, saleRecord] of salesToday) {
-    const team = runtime.team[teamId];
-    team.cost += saleRecord.cost;
-  }
-
   const standings = Object.values(runtime.team)
     .map((teamState) => ({
       teamId: teamState.teamId,
       profit: teamState.revenue - teamState.cost,
+      cash: teamState.cash,
+      insolvent: teamState.insolvent,
     }))
     .sort((a, b) => b.profit - a.profit);
 
@@ -420,10 +1213,13 @@ export function runTick(
     P_airline: runtime.P_airline,
     C_remain: runtime.C_remain,
     price_board: priceBoard,
-    demand_hint: minPrice < config.market.P_ref * 0.9 ? 'high'
-      : minPrice > config.market.P_ref * 1.1 ? 'low'
+    demand_hint: minPrice < conditions.P_ref * 0.9 ? 'high'
+      : minPrice > conditions.P_ref * 1.1 ? 'low'
         : 'med',
     standings,
+    events: conditions.fired,
+    seat_book: bookDepth(runtime.seat_book),
+    seat_trades: seatTrades,
   };
 
   const results: DayResults = {
@@ -433,22 +1229,49 @@ export function runTick(
       sold_pool: value.sold_pool,
       revenue: value.revenue,
       cost: value.cost,
+      ancillary_revenue: value.ancillary_revenue,
+      ancillary_cost: value.ancillary_cost,
     })),
+    demand_expected: segmentExpected.reduce((sum, value) => sum + value, 0),
     demand_realized,
     demand_lost,
     C_remain_after: runtime.C_remain,
+    seat_trades: seatTrades,
+    lost_demand: Array.from(lostToday, ([teamId, lost]) => ({ teamId, ...lost })),
   };
+  if (trackSegments) {
+    results.segments = segments.map((segment, idx) => ({
+      segmentId: segment.id,
+      demand_expected: segmentExpected[idx],
+      demand: segmentDemand[idx],
+      sold: segmentSales[idx].sold,
+      lost: Math.max(0, segmentDemand[idx] - segmentSales[idx].sold - segmentSales[idx].absorbed),
+      sales: segmentSales[idx].sales,
+    }));
+  }
+  if (explain) results.explain = explain;
+  if (continuous) results.arrivals = arrivals;
+  if (partySizes) {
+    results.group_losses = sanitized.map(({ teamId }) => ({ teamId, ...(saleContext.groupLosses.get(teamId) ?? { parties: 0, seats: 0 }) }));
+  }
+  if (externals.length > 0) {
+    results.external = externals.map(({ id, price }) => ({ id, price, sold: saleContext.externalSales.get(id) ?? 0 }));
+  }
 
   runtime.tick -= 1;
   runtime.P_airline = airlineReprice(config, runtime);
+  if (config.debug?.invariants) assertInvariants(config, runtime);
 
   return { snapshot, results };
 }
 
-export function finalize(config: Config, runtime: Runtime): FinalReport[] {
-  const reports: FinalReport[] = [];
+// Reports and scores every team, or only `teamIds` (e.g. the teams still in a live session)
+// so the winner and normalized scores are decided among them alone.
+export function finalize(config: Config, runtime: Runtime, teamIds?: TeamId[]): FinalReport[] {
+  const reports: UnscoredReport[] = [];
 
   for (const teamState of Object.values(runtime.team)) {
+    if (teamIds && !teamIds.includes(teamState.teamId)) continue;
     const sold = teamState.sales_fix + teamState.sales_pool;
     const sellTotal = runtime.sold_history
       .filter((entry) => entry.teamId === teamState.teamId)
@@ -465,29 +1288,27 @@ export function finalize(config: Config, runtime: Runtime): FinalReport[] {
     reports.push({
       teamId: teamState.teamId,
       total_revenue: teamState.revenue,
+      ticket_revenue: teamState.revenue - teamState.ancillary_revenue,
+      ancillary_revenue: teamState.ancillary_revenue,
+      ancillary_cost: teamState.ancillary_cost,
       total_cost: totalCost,
       profit,
       avg_sell_price: avgSellPrice,
       avg_buy_price: avgBuyPrice,
       sold_total: sold,
       load_factor: config.airline.C_total > 0 ? sold / config.airline.C_total : 0,
-      winner: false,
+      released_fixed: teamState.released_fixed,
+      release_recovered: teamState.release_recovered,
+      spill: { ...teamState.spill },
+      spill_total: spillTotal(teamState.spill),
+      spoiled_fixed: teamState.fixed_left,
+      spoilage_cost: teamState.fixed_left * teamState.avg_fixed_cost,
+      cash: teamState.cash,
+      insolvent: teamState.insolvent,
     });
   }
 
-  const eligible = reports.filter((report) => !config.rules.need_price_above_cost
-    || report.avg_sell_price >= report.avg_buy_price);
-  const podium = eligible.length > 0 ? eligible : reports;
-  podium.sort((a, b) => b.profit - a.profit);
-
-  if (podium[0]) {
-    const winner = podium[0].teamId;
-    for (const report of reports) {
-      report.winner = report.teamId === winner;
-    }
-  }
-
-  return reports;
+  return scoreReports(config, runtime, reports);
 }
 
 export function buildDemoTimeline(
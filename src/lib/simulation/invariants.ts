@@ -0,0 +1,86 @@
+import type { Runtime } from './engine';
+import type { Config, TeamId } from './types';
+
+// Conservation checks behind Config.debug.invariants. runTick calls assertInvariants after every
+// tick so an accounting slip surfaces on the tick that caused it, not in the final report.
+
+export type InvariantName =
+  | 'seats_within_capacity'     // fixed plus pool seats sold <= C_total (plus seats added by events)
+  | 'fixed_left_non_negative'
+  | 'c_remain_non_negative'
+  | 'revenue_matches_sales'     // team ticket revenue = sum of its sale prices in sold_history
+  | 'sold_cum_monotonic';
+
+export interface InvariantViolation {
+  invariant: InvariantName;
+  tick: number;                 // countdown tick that was just played
+  teamId?: TeamId;
+  expected: number;
+  actual: number;
+}
+
+export class InvariantViolationError extends Error {
+  readonly violation: InvariantViolation;
+
+  constructor(violation: InvariantViolation) {
+    const team = violation.teamId ? ` team ${violation.teamId}` : '';
+    super(`Invariant ${violation.invariant} violated at tick ${violation.tick}${team}: expected ${violation.expected}, got ${violation.actual}`);
+    this.name = 'InvariantViolationError';
+    this.violation = violation;
+  }
+}
+
+const REVENUE_TOLERANCE = 1e-6;
+
+// Seats capacity_change events have added to the airline so far (cuts only lower the bound).
+function seatsAdded(config: Config, runtime: Runtime): number {
+  return (config.events ?? [])
+    .filter((event) => event.type === 'capacity_change' && event.tick <= config.ticks_total && event.tick > runtime.tick)
+    .reduce((sum, event) => sum + Math.max(0, Math.round(event.value)), 0);
+}
+
+export function findInvariantViolations(config: Config, runtime: Runtime): InvariantViolation[] {
+  const tick = runtime.tick + 1;
+  const violations: InvariantViolation[] = [];
+  const teams = Object.values(runtime.team);
+
+  const capacity = config.airline.C_total + seatsAdded(config, runtime);
+  const sold = teams.reduce((sum, team) => sum + team.sales_fix + team.sales_pool, 0);
+  if (sold > capacity) {
+    violations.push({ invariant: 'seats_within_capacity', tick, expected: capacity, actual: sold });
+  }
+
+  if (runtime.C_remain < 0) {
+    violations.push({ invariant: 'c_remain_non_negative', tick, expected: 0, actual: runtime.C_remain });
+  }
+
+  const salesRevenue = new Map<TeamId, number>();
+  for (const entry of runtime.sold_history) {
+    salesRevenue.set(entry.teamId, (salesRevenue.get(entry.teamId) ?? 0) + entry.price);
+  }
+  for (const team of teams) {
+    if (team.fixed_left < 0) {
+      violations.push({ invariant: 'fixed_left_non_negative', tick, teamId: team.teamId, expected: 0, actual: team.fixed_left });
+    }
+    const expected = salesRevenue.get(team.teamId) ?? 0;
+    const ticketRevenue = team.revenue - team.ancillary_revenue;
+    if (Math.abs(ticketRevenue - expected) > REVENUE_TOLERANCE) {
+      violations.push({ invariant: 'revenue_matches_sales', tick, teamId: team.teamId, expected, actual: ticketRevenue });
+    }
+  }
+
+  const played = config.ticks_total - runtime.tick;
+  for (let i = 1; i < played; i += 1) {
+    if (runtime.soldCum[i] < runtime.soldCum[i - 1]) {
+      violations.push({ invariant: 'sold_cum_monotonic', tick: config.ticks_total - i, expected: runtime.soldCum[i - 1], actual: runtime.soldCum[i] });
+      break;
+    }
+  }
+
+  return violations;
+}
+
+export function assertInvariants(config: Config, runtime: Runtime): void {
+  const [violation] = findInvariantViolations(config, runtime);
+  if (violation) throw new InvariantViolationError(violation);
+}
@@ -0,0 +1,106 @@
+import type { SeatBookDepth, SeatOrder, SeatOrderRequest, SeatTrade, TeamId } from './types';
+
+// Secondary market for fixed seats. Orders rest in the book until they are filled or
+// cancelled; matching uses price-time priority and trades at the resting order's price.
+// The functions only need each team's fixed inventory, so the engine and the server's
+// live market share them.
+
+export interface SeatOrderBook {
+  orders: SeatOrder[];
+  next_id: number;
+}
+
+export type SeatInventory = Record<TeamId, { fixed_left: number; avg_fixed_cost: number }>;
+
+export function createOrderBook(): SeatOrderBook {
+  return { orders: [], next_id: 1 };
+}
+
+export function postSeatOrder(book: SeatOrderBook, teamId: TeamId, request: SeatOrderRequest, tick: number): SeatOrder {
+  if (request.side !== 'bid' && request.side !== 'ask') {
+    throw new Error(`Invalid seat order side: ${String(request.side)}`);
+  }
+  const quantity = Math.floor(request.quantity);
+  if (!(quantity > 0) || !(request.price > 0)) {
+    throw new Error('Seat orders need a positive quantity and price');
+  }
+  const order: SeatOrder = { id: `S${book.next_id}`, teamId, tick, side: request.side, quantity, price: request.price };
+  book.next_id += 1;
+  book.orders.push(order);
+  return order;
+}
+
+export function cancelSeatOrders(book: SeatOrderBook, teamId: TeamId): SeatOrder[] {
+  const cancelled = book.orders.filter((order) => order.teamId === teamId);
+  book.orders = book.orders.filter((order) => order.teamId !== teamId);
+  return cancelled;
+}
+
+const orderSequence = (order: SeatOrder) => Number(order.id.slice(1));
+
+// Crosses the book and moves seats between inventories. Asks whose seller has run out of
+// fixed seats are dropped; a team never trades with itself. With `spendable` (cash each team
+// may still spend, updated as trades settle) bids only fill as far as the buyer can pay and
+// the rest keeps resting.
+export function matchSeatOrders(
+  book: SeatOrderBook,
+  inventory: SeatInventory,
+  tick: number,
+  spendable?: Record<TeamId, number>,
+): SeatTrade[] {
+  const trades: SeatTrade[] = [];
+  const bids = book.orders
+    .filter((order) => order.side === 'bid')
+    .sort((a, b) => b.price - a.price || orderSequence(a) - orderSequence(b));
+  const asks = book.orders
+    .filter((order) => order.side === 'ask')
+    .sort((a, b) => a.price - b.price || orderSequence(a) - orderSequence(b));
+
+  for (const bid of bids) {
+    const buyer = inventory[bid.teamId];
+    if (!buyer) continue;
+    for (const ask of asks) {
+      if (bid.quantity <= 0) break;
+      if (ask.price > bid.price) break;
+      if (ask.quantity <= 0 || ask.teamId === bid.teamId) continue;
+      const seller = inventory[ask.teamId];
+      if (!seller || seller.fixed_left <= 0) {
+        ask.quantity = 0;
+        continue;
+      }
+
+      const price = orderSequence(ask) < orderSequence(bid) ? ask.price : bid.price;
+      const affordable = spendable ? Math.floor((spendable[bid.teamId] ?? 0) / price) : Infinity;
+      const quantity = Math.min(bid.quantity, ask.quantity, seller.fixed_left, affordable);
+      if (quantity <= 0) continue;
+      const held = buyer.fixed_left;
+      buyer.avg_fixed_cost = (held * buyer.avg_fixed_cost + quantity * price) / (held + quantity);
+      buyer.fixed_left += quantity;
+      seller.fixed_left -= quantity;
+      if (seller.fixed_left === 0) seller.avg_fixed_cost = 0;
+      bid.quantity -= quantity;
+      ask.quantity -= quantity;
+      if (spendable) {
+        spendable[bid.teamId] -= quantity * price;
+        spendable[ask.teamId] = (spendable[ask.teamId] ?? 0) + quantity * price;
+      }
+      trades.push({ tick, buyer: bid.teamId, seller: ask.teamId, quantity, price });
+    }
+  }
+
+  book.orders = book.orders.filter((order) => order.quantity > 0);
+  return trades;
+}
+
+export function bookDepth(book: SeatOrderBook): SeatBookDepth {
+  const levels = (side: 'bid' | 'ask') => {
+    const byPrice = new Map<number, number>();
+    book.orders
+      .filter((order) => order.side === side)
+      .forEach((order) => byPrice.set(order.price, (byPrice.get(order.price) ?? 0) + order.quantity));
+    return Array.from(byPrice.entries())
+      .map(([price, quantity]) => ({ price, quantity }))
+      .sort((a, b) => (side === 'bid' ? b.price - a.price : a.price - b.price));
+  };
+  return { bids: levels('bid'), asks: levels('ask') };
+}
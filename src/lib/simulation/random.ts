@@ -0,0 +1,137 @@
+// The seeded RNG used across the simulation, plus samplers driven by it, so every draw is reproducible.
+
+export type Rng = () => number;
+
+// LCG whose state lives on the function itself so a runtime can be saved and resumed.
+export type SeededRng = {
+  (): number;
+  state: number;
+};
+
+export function seededRng(seed: number): SeededRng {
+  const rng = (() => {
+    rng.state = (rng.state * 1664525 + 1013904223) >>> 0;
+    return rng.state / 2 ** 32;
+  }) as SeededRng;
+  rng.state = seed >>> 0;
+  return rng;
+}
+
+// Knuth's product method is exact but slows down for large means, so the mean is split
+// into chunks (a sum of independent Poisson draws is Poisson again).
+const POISSON_CHUNK = 30;
+
+function samplePoissonSmall(rng: Rng, mean: number): number {
+  const limit = Math.exp(-mean);
+  let product = rng();
+  let count = 0;
+  while (product > limit) {
+    count += 1;
+    product *= rng();
+  }
+  return count;
+}
+
+export function samplePoisson(rng: Rng, mean: number): number {
+  if (!(mean > 0)) return 0;
+  let remaining = mean;
+  let total = 0;
+  while (remaining > 0) {
+    const chunk = Math.min(remaining, POISSON_CHUNK);
+    total += samplePoissonSmall(rng, chunk);
+    remaining -= chunk;
+  }
+  return total;
+}
+
+export function sampleStandardNormal(rng: Rng): number {
+  let u = 0;
+  while (u === 0) u = rng();
+  const v = rng();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+// Marsaglia–Tsang; shapes below 1 are boosted via Gamma(k) = Gamma(k + 1) * U^(1/k).
+export function sampleGamma(rng: Rng, shape: number, scale: number): number {
+  if (!(shape > 0) || !(scale > 0)) return 0;
+  if (shape < 1) {
+    let u = 0;
+    while (u === 0) u = rng();
+    return sampleGamma(rng, shape + 1, scale) * u ** (1 / shape);
+  }
+
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+  for (;;) {
+    let x: number;
+    let v: number;
+    do {
+      x = sampleStandardNormal(rng);
+      v = 1 + c * x;
+    } while (v <= 0);
+    v = v * v * v;
+    const u = rng();
+    if (u < 1 - 0.0331 * x ** 4) return d * v * scale;
+    if (Math.log(u) < 0.5 * x * x + d * (1 - v + Math.log(v))) return d * v * scale;
+  }
+}
+
+// Gamma–Poisson mixture: mean `mean`, variance `mean + mean^2 / dispersion`.
+export function sampleNegativeBinomial(rng: Rng, mean: number, dispersion: number): number {
+  if (!(mean > 0)) return 0;
+  if (!(dispersion > 0)) return samplePoisson(rng, mean);
+  return samplePoisson(rng, sampleGamma(rng, dispersion, mean / dispersion));
+}
+
+export function sampleBeta(rng: Rng, a: number, b: number): number {
+  const x = sampleGamma(rng, a, 1);
+  const y = sampleGamma(rng, b, 1);
+  return x + y > 0 ? x / (x + y) : 0;
+}
+
+// Knuth's order-statistic split (TAOCP 3.4.1): one Beta draw halves the number of trials,
+// so large n costs O(log n) draws; the last few trials are counted directly. Exact.
+const BINOMIAL_DIRECT = 40;
+
+export function sampleBinomial(rng: Rng, n: number, p: number): number {
+  let trials = Math.floor(n);
+  let prob = p;
+  if (!(trials > 0) || !(prob > 0)) return 0;
+  if (prob >= 1) return trials;
+
+  let successes = 0;
+  while (trials > BINOMIAL_DIRECT) {
+    const a = 1 + Math.floor(trials / 2);
+    const b = trials + 1 - a;
+    const x = sampleBeta(rng, a, b); // a-th smallest of `trials` uniforms
+    if (x >= prob) {
+      trials = a - 1;
+      prob /= x;
+    } else {
+      successes += a;
+      trials = b - 1;
+      prob = (prob - x) / (1 - x);
+    }
+  }
+  for (let i = 0; i < trials; i += 1) {
+    if (rng() < prob) successes += 1;
+  }
+  return successes;
+}
+
+// Splits n draws over categories with the given weights via conditional binomials.
+export function sampleMultinomial(rng: Rng, n: number, weights: number[]): number[] {
+  const total = weights.reduce((sum, weight) => sum + Math.max(0, weight), 0);
+  let lastPositive = -1;
+  weights.forEach((weight, idx) => { if (weight > 0) lastPositive = idx; });
+
+  let remaining = Math.max(0, Math.floor(n));
+  let weightLeft = total;
+  return weights.map((weight, idx) => {
+    if (remaining <= 0 || !(weight > 0)) return 0;
+    const count = idx === lastPositive ? remaining : sampleBinomial(rng, remaining, weight / weightLeft);
+    remaining -= count;
+    weightLeft -= weight;
+    return count;
+  });
+}
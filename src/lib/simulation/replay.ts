@@ -0,0 +1,133 @@
+import { finalize, initRuntime, runAuction, runTick } from './engine';
+import type { Runtime } from './engine';
+import type { AuctionBid, AuctionResult, Config, DayResults, Decision, FinalReport, MarketSnapshot } from './types';
+
+// Decision log for a single market: the config, the sealed bids and every tick's decisions,
+// plus the engine output at the time of recording. Replaying the inputs must reproduce the
+// recorded outputs exactly; `verifyReplay` points at the first tick where they differ.
+
+export const REPLAY_LOG_VERSION = 1;
+
+export type ReplayRecord =
+  | { type: 'header'; version: typeof REPLAY_LOG_VERSION; config: Config }
+  | { type: 'auction'; bids: AuctionBid[]; result: AuctionResult }
+  | { type: 'tick'; tick: number; decisions: Decision[]; snapshot: MarketSnapshot; results: DayResults }
+  | { type: 'final'; report: FinalReport[] };
+
+export type ReplayDivergence = {
+  stage: 'auction' | 'tick' | 'final';
+  tick?: number;
+  expected: unknown;
+  actual: unknown;
+};
+
+export type ReplayVerification =
+  | { ok: true; ticks_checked: number }
+  | { ok: false; ticks_checked: number; divergence: ReplayDivergence };
+
+export type ReplayRecorder = {
+  config: Config;
+  auction: AuctionResult;
+  runtime: Runtime;
+  log: ReplayRecord[];
+  runTick: (decisions: Decision[]) => { snapshot: MarketSnapshot; results: DayResults };
+  finalize: () => FinalReport[];
+};
+
+const cloneJson = <T>(value: T): T => JSON.parse(JSON.stringify(value)) as T;
+const sameJson = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+export function createReplayRecorder(config: Config, bids: AuctionBid[]): ReplayRecorder {
+  const recordedConfig = cloneJson(config);
+  const auction = runAuction(recordedConfig, bids);
+  const runtime = initRuntime(recordedConfig, auction);
+  const log: ReplayRecord[] = [
+    { type: 'header', version: REPLAY_LOG_VERSION, config: cloneJson(recordedConfig) },
+    { type: 'auction', bids: cloneJson(bids), result: cloneJson(auction) },
+  ];
+
+  return {
+    config: recordedConfig,
+    auction,
+    runtime,
+    log,
+    runTick: (decisions) => {
+      const outcome = runTick(recordedConfig, runtime, decisions);
+      log.push({ type: 'tick', tick: outcome.snapshot.tick, decisions: cloneJson(decisions), ...cloneJson(outcome) });
+      return outcome;
+    },
+    finalize: () => {
+      const report = finalize(recordedConfig, runtime);
+      log.push({ type: 'final', report: cloneJson(report) });
+      return report;
+    },
+  };
+}
+
+export function toJsonl(log: ReplayRecord[]): string {
+  return log.map((record) => JSON.stringify(record)).join('\n') + '\n';
+}
+
+export function parseJsonl(text: string): ReplayRecord[] {
+  const log = text
+    .split('\n')
+    .filter((line) => line.trim().length > 0)
+    .map((line) => JSON.parse(line) as ReplayRecord);
+
+  const header = log[0];
+  if (!header || header.type !== 'header') {
+    throw new Error('Replay log must start with a header record');
+  }
+  if (header.version !== REPLAY_LOG_VERSION) {
+    throw new Error(`Unsupported replay log version: ${header.version}`);
+  }
+  if (log[1]?.type !== 'auction') {
+    throw new Error('Replay log is missing the auction record');
+  }
+  return log;
+}
+
+export function verifyReplay(log: ReplayRecord[]): ReplayVerification {
+  const [header, auctionRecord, ...rest] = log;
+  if (header?.type !== 'header' || auctionRecord?.type !== 'auction') {
+    throw new Error('Replay log must start with header and auction records');
+  }
+
+  const config = cloneJson(header.config);
+  const auction = runAuction(config, cloneJson(auctionRecord.bids));
+  if (!sameJson(auction, auctionRecord.result)) {
+    return {
+      ok: false,
+      ticks_checked: 0,
+      divergence: { stage: 'auction', expected: auctionRecord.result, actual: auction },
+    };
+  }
+
+  const runtime = initRuntime(config, auction);
+  let ticksChecked = 0;
+  for (const record of rest) {
+    if (record.type === 'tick') {
+      const actual = runTick(config, runtime, cloneJson(record.decisions));
+      const expected = { snapshot: record.snapshot, results: record.results };
+      if (!sameJson(actual, expected)) {
+        return {
+          ok: false,
+          ticks_checked: ticksChecked,
+          divergence: { stage: 'tick', tick: record.tick, expected, actual },
+        };
+      }
+      ticksChecked += 1;
+    } else if (record.type === 'final') {
+      const actual = finalize(config, runtime);
+      if (!sameJson(actual, record.report)) {
+        return {
+          ok: false,
+          ticks_checked: ticksChecked,
+          divergence: { stage: 'final', expected: record.report, actual },
+        };
+      }
+    }
+  }
+
+  return { ok: true, ticks_checked: ticksChecked };
+}
@@ -0,0 +1,107 @@
+import type { Runtime } from './engine';
+import type { Config, FinalReport, ScoreComponent, ScoringConfig, ScoringKpi } from './types';
+
+// Winner scoring for finalize. Without `config.scoring` the score is raw profit and
+// eligibility is rules.need_price_above_cost plus solvency, which matches the classic game.
+
+export type UnscoredReport = Omit<FinalReport, 'eligible' | 'score' | 'score_breakdown' | 'winner'>;
+
+const DEFAULT_SCORING: ScoringConfig = { criteria: [{ kpi: 'profit', weight: 1 }], normalize: 'none' };
+
+export function resolveScoring(config: Pick<Config, 'scoring'>): ScoringConfig {
+  return config.scoring ?? DEFAULT_SCORING;
+}
+
+function stdDev(values: number[]): number {
+  if (values.length === 0) return 0;
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length);
+}
+
+export function kpiValue(kpi: ScoringKpi, report: UnscoredReport, runtime: Runtime, riskAversion = 1): number {
+  switch (kpi) {
+    case 'profit':
+      return report.profit;
+    case 'revenue':
+      return report.total_revenue;
+    case 'margin':
+      return report.total_revenue > 0 ? report.profit / report.total_revenue : 0;
+    case 'load_factor':
+      return report.load_factor;
+    case 'avg_sell_price':
+      return report.avg_sell_price;
+    case 'cash':
+      return report.cash;
+    case 'risk_adjusted_profit': {
+      const flows = (runtime.team[report.teamId]?.cash_ledger ?? []).map((entry) => entry.closing - entry.opening);
+      return report.profit - riskAversion * stdDev(flows);
+    }
+    default:
+      throw new Error(`Unknown scoring kpi: ${kpi as string}`);
+  }
+}
+
+function normalize(values: number[], mode: NonNullable<ScoringConfig['normalize']>): number[] {
+  if (mode === 'none') return values;
+  if (mode === 'rank') {
+    // Share of rivals beaten, ties counting half.
+    if (values.length <= 1) return values.map(() => 1);
+    return values.map((value) => values.reduce((sum, other) =>
+      sum + (value > other ? 1 : value === other ? 0.5 : 0), -0.5) / (values.length - 1));
+  }
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  return values.map((value) => (max > min ? (value - min) / (max - min) : 1));
+}
+
+// A loss-leader fare still counts as selling above cost when ancillaries close the gap.
+function ancillaryMarginPerSeat(report: UnscoredReport): number {
+  return report.sold_total > 0 ? (report.ancillary_revenue - report.ancillary_cost) / report.sold_total : 0;
+}
+
+export function scoreReports(config: Config, runtime: Runtime, reports: UnscoredReport[]): FinalReport[] {
+  const scoring = resolveScoring(config);
+  if (scoring.criteria.length === 0) throw new Error('Scoring needs at least one criterion');
+  const riskAversion = scoring.risk_aversion ?? 1;
+  const mode = scoring.normalize ?? 'min_max';
+  const rules = scoring.eligibility ?? {};
+  const priceAboveCost = rules.price_above_cost ?? config.rules.need_price_above_cost;
+
+  const breakdowns: ScoreComponent[][] = reports.map(() => []);
+  for (const { kpi, weight } of scoring.criteria) {
+    const values = reports.map((report) => kpiValue(kpi, report, runtime, riskAversion));
+    normalize(values, mode).forEach((normalized, idx) => {
+      breakdowns[idx].push({ kpi, value: values[idx], normalized, weight, contribution: normalized * weight });
+    });
+  }
+
+  const scored: FinalReport[] = reports.map((report, idx) => ({
+    ...report,
+    eligible: (rules.allow_insolvent || !report.insolvent)
+      && (!priceAboveCost || report.avg_sell_price + ancillaryMarginPerSeat(report) >= report.avg_buy_price)
+      && report.load_factor >= (rules.min_load_factor ?? Number.NEGATIVE_INFINITY)
+      && report.profit >= (rules.min_profit ?? Number.NEGATIVE_INFINITY),
+    score: breakdowns[idx].reduce((sum, component) => sum + component.contribution, 0),
+    score_breakdown: breakdowns[idx],
+    winner: false,
+  }));
+
+  // Without an eligible team the best solvent one wins; if every team went insolvent, the best score overall.
+  const eligible = scored.filter((report) => report.eligible);
+  const solvent = scored.filter((report) => rules.allow_insolvent || !report.insolvent);
+  const podium = eligible.length > 0 ? eligible : solvent.length > 0 ? solvent : [...scored];
+  const tieBreakers = scoring.tie_breakers ?? [];
+  const byId = new Map(reports.map((report) => [report.teamId, report]));
+  const tieValue = (report: FinalReport, kpi: ScoringKpi) => kpiValue(kpi, byId.get(report.teamId)!, runtime, riskAversion);
+  podium.sort((a, b) => {
+    if (b.score !== a.score) return b.score - a.score;
+    for (const kpi of tieBreakers) {
+      const diff = tieValue(b, kpi) - tieValue(a, kpi);
+      if (diff !== 0) return diff;
+    }
+    return 0;
+  });
+  if (podium[0]) podium[0].winner = true;
+
+  return scored;
+}
@@ -0,0 +1,221 @@
+import type { Runtime } from './engine';
+import { seededRng } from './random';
+import type { Rng } from './random';
+import type { AuctionBid, Config, Decision, MarketSnapshot, TeamId, TeamState } from './types';
+
+// Named AI opponents. A strategy only sees what a human team sees (its own TeamState,
+// the last MarketSnapshot and the config), so bots can be swapped in for any team in
+// practice mode, the demo or the batch runner.
+
+export interface BidView {
+  teamId: TeamId;
+  config: Config;
+  rng: Rng;
+}
+
+export interface StrategyView {
+  tick: number;                      // countdown tick about to be played
+  config: Config;
+  team: TeamState;
+  snapshot: MarketSnapshot | null;   // previous tick's snapshot (null before the first tick)
+  rng: Rng;
+}
+
+export interface Strategy {
+  name: StrategyName;
+  bid: (view: BidView) => AuctionBid;
+  decide: (view: StrategyView) => Decision;
+}
+
+export type StrategyName =
+  | 'undercutter'
+  | 'yield_manager'
+  | 'hold_then_dump'
+  | 'cost_plus'
+  | 'markdown'
+  | 'drift';
+
+export type StrategyParams = Record<string, number>;
+
+const clamp = (x: number, lo: number, hi: number) => Math.max(lo, Math.min(hi, x));
+
+function teamBounds(config: Config, teamId: TeamId) {
+  const teamCfg = config.teams.find((team) => team.id === teamId);
+  return {
+    P_start: teamCfg?.P_start ?? config.market.P_ref,
+    P_floor: teamCfg?.P_floor ?? 0,
+    P_ceil: teamCfg?.P_ceil ?? Number.POSITIVE_INFINITY,
+  };
+}
+
+function progressOf(view: StrategyView): number {
+  const total = Math.max(1, view.config.ticks_total);
+  return (total - view.tick) / total;
+}
+
+function decision(view: StrategyView, price: number, extra: Partial<Decision> = {}): Decision {
+  const { P_floor, P_ceil } = teamBounds(view.config, view.team.teamId);
+  return {
+    teamId: view.team.teamId,
+    price: Math.round(clamp(price, P_floor, P_ceil)),
+    push_level: 0,
+    fix_hold_pct: 0,
+    tool: 'none',
+    ...extra,
+  };
+}
+
+// Default sealed bid: a multiple of P_ref for a fraction of an even capacity split.
+function standardBid(view: BidView, params: StrategyParams, priceFactor: number, quantityFactor: number): AuctionBid {
+  const { config, teamId } = view;
+  const evenSplit = config.airline.C_total / Math.max(1, config.teams.length);
+  return {
+    teamId,
+    bid_price_per_seat: Math.round(params.bid_price ?? config.market.P_ref * priceFactor),
+    bid_quantity: Math.max(0, Math.floor(params.bid_quantity ?? evenSplit * quantityFactor)),
+  };
+}
+
+const cheapestRival = (view: StrategyView): number | undefined => {
+  const rivals = (view.snapshot?.price_board ?? []).filter((entry) => entry.teamId !== view.team.teamId);
+  return rivals.length > 0 ? Math.min(...rivals.map((entry) => entry.price)) : undefined;
+};
+
+const unitCost = (view: StrategyView): number => (view.team.fixed_left > 0
+  ? view.team.avg_fixed_cost
+  : view.snapshot?.P_airline ?? view.config.airline.P_airline_start);
+
+const factories: Record<StrategyName, (params: StrategyParams) => Omit<Strategy, 'name'>> = {
+  // Prices just below the cheapest rival, but never below its own unit cost.
+  undercutter: (params) => ({
+    bid: (view) => standardBid(view, params, 0.85, 0.5),
+    decide: (view) => {
+      const rival = cheapestRival(view);
+      const target = rival !== undefined ? rival - (params.margin ?? 2) : view.config.market.P_ref;
+      return decision(view, Math.max(target, unitCost(view) * (params.floor_markup ?? 1)));
+    },
+  }),
+
+  // Raises the price while inventory runs ahead of the remaining expected demand, cuts it when behind.
+  yield_manager: (params) => ({
+    bid: (view) => standardBid(view, params, 0.8, 0.6),
+    decide: (view) => {
+      const { config, team, tick } = view;
+      const startIndex = config.ticks_total - tick;
+      const remainingDemand = config.market.D_base.slice(startIndex).reduce((sum, value) => sum + value, 0);
+      const fairShare = Math.max(1, remainingDemand / Math.max(1, config.teams.length));
+      const inventoryRatio = team.fixed_left / fairShare;
+      const sensitivity = params.sensitivity ?? 0.35;
+      const factor = clamp(1 + sensitivity * (1 - inventoryRatio), 0.75, 1.6);
+      return decision(view, config.market.P_ref * factor, { push_level: inventoryRatio > 1.5 ? 1 : 0 });
+    },
+  }),
+
+  // Holds a premium price and part of its fixed seats, then dumps everything near departure.
+  hold_then_dump: (params) => ({
+    bid: (view) => standardBid(view, params, 0.75, 0.7),
+    decide: (view) => {
+      const { config, tick } = view;
+      if (tick <= (params.dump_ticks ?? 3)) {
+        const dumpPrice = config.market.P_ref * (params.dump_factor ?? 0.8);
+        return decision(view, Math.max(dumpPrice, view.team.avg_fixed_cost), { push_level: 2 });
+      }
+      return decision(view, config.market.P_ref * (params.hold_factor ?? 1.4), {
+        fix_hold_pct: params.hold_pct ?? 50,
+      });
+    },
+  }),
+
+  // Marks up whatever the next seat costs: its own fixed seats, else the airline pool.
+  cost_plus: (params) => ({
+    bid: (view) => standardBid(view, params, 0.7, 0.4),
+    decide: (view) => decision(view, unitCost(view) * (1 + (params.markup ?? 0.25))),
+  }),
+
+  // Linear markdown from the team's start price (the original practice-mode opponent).
+  markdown: (params) => ({
+    bid: (view) => standardBid(view, { bid_price: 145, bid_quantity: 60, ...params }, 1, 1),
+    decide: (view) => {
+      const { P_start } = teamBounds(view.config, view.team.teamId);
+      const price = Math.max(params.min_price ?? 99, P_start * (1 - (params.discount ?? 0.12) * progressOf(view)));
+      return decision(view, price);
+    },
+  }),
+
+  // Random walk around the current price (the original demo timeline).
+  drift: (params) => ({
+    bid: (view) => standardBid(view, { bid_price: 145, bid_quantity: 60, ...params }, 1, 1),
+    decide: (view) => {
+      const step = params.step ?? 0.01;
+      return decision(view, view.team.price * (1 - step * (view.rng() - 0.5)));
+    },
+  }),
+};
+
+export const STRATEGY_NAMES = Object.keys(factories) as StrategyName[];
+
+export function isStrategyName(name: string): name is StrategyName {
+  return Object.prototype.hasOwnProperty.call(factories, name);
+}
+
+export function createStrategy(name: StrategyName, params: StrategyParams = {}): Strategy {
+  if (!isStrategyName(name)) {
+    throw new Error(`Unknown strategy: ${name}`);
+  }
+  return { name, ...factories[name](params) };
+}
+
+export function resolveStrategy(strategy: Strategy | StrategyName): Strategy {
+  return typeof strategy === 'string' ? createStrategy(strategy) : strategy;
+}
+
+// Bots get their own RNG stream per team so they never disturb the market's RNG.
+export function strategyRng(config: Config, teamId: TeamId): Rng {
+  const index = Math.max(0, config.teams.findIndex((team) => team.id === teamId));
+  return seededRng((config.rng_seed + 7919 * (index + 1)) >>> 0);
+}
+
+export function buildStrategyView(
+  config: Config,
+  runtime: Runtime,
+  teamId: TeamId,
+  snapshot: MarketSnapshot | null,
+  rng: Rng,
+): StrategyView {
+  const state = runtime.team[teamId];
+  if (!state) throw new Error(`Unknown team: ${teamId}`);
+  const team: TeamState = {
+    teamId: state.teamId,
+    fixed_left: state.fixed_left,
+    avg_fixed_cost: state.avg_fixed_cost,
+    price: state.price,
+    revenue: state.revenue,
+    cost: state.cost,
+    sales_fix: state.sales_fix,
+    sales_pool: state.sales_pool,
+    ancillary_revenue: state.ancillary_revenue,
+    ancillary_cost: state.ancillary_cost,
+  };
+  return { tick: runtime.tick, config, team, snapshot, rng };
+}
+
+// Opening moves for teams that are not driven by the engine loop (e.g. the legacy
+// practice mode): the sealed bid plus the first-tick decision after winning it in full.
+export function openingMoves(strategy: Strategy, config: Config, teamId: TeamId): { bid: AuctionBid; decision: Decision } {
+  const rng = strategyRng(config, teamId);
+  const bid = strategy.bid({ teamId, config, rng });
+  const { P_start } = teamBounds(config, teamId);
+  const team: TeamState = {
+    teamId,
+    fixed_left: bid.bid_quantity,
+    avg_fixed_cost: bid.bid_price_per_seat,
+    price: P_start,
+    revenue: 0,
+    cost: bid.bid_quantity * bid.bid_price_per_seat,
+    sales_fix: 0,
+    sales_pool: 0,
+    ancillary_revenue: 0,
+    ancillary_cost: 0,
+  };
+  return { bid, decision: strategy.decide({ tick: config.ticks_total, config, team, snapshot: null, rng }) };
+}
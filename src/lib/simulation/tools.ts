@@ -0,0 +1,42 @@
+import type { Config, ToolChoice, ToolDefinition } from './types';
+
+// Tool registry. Configs without a `tools` list get the classic three tools, which keeps
+// older scenarios playable while letting new ones define their own.
+
+export const DEFAULT_TOOLS: ToolDefinition[] = [
+  {
+    id: 'spotlight',
+    label: 'Spotlight',
+    description: 'Featured placement: +25% attention for one tick.',
+    cost: 300,
+    duration_ticks: 1,
+    attention: 1.25,
+  },
+  {
+    id: 'hedge',
+    label: 'Hedge',
+    description: 'Locks your pool purchase price for 3 ticks.',
+    cost: 150,
+    duration_ticks: 3,
+    attention: 0.95,
+    mechanic: 'lock_pool_price',
+  },
+  {
+    id: 'commit',
+    label: 'Commit',
+    description: 'Reserves 10 pool seats for you for 3 ticks.',
+    cost: 100,
+    duration_ticks: 3,
+    attention: 1.05,
+    mechanic: 'reserve_pool_seats',
+    seats: 10,
+  },
+];
+
+export function resolveTools(config: Pick<Config, 'tools'>): ToolDefinition[] {
+  return config.tools ?? DEFAULT_TOOLS;
+}
+
+export function findTool(config: Pick<Config, 'tools'>, id: ToolChoice): ToolDefinition | undefined {
+  return resolveTools(config).find((tool) => tool.id === id);
+}
@@ -0,0 +1,142 @@
+import { runScenario } from './batch';
+import type { Strategy, StrategyName } from './strategies';
+import type { Config, TeamId } from './types';
+
+// Round-robin tournament between bots: every group of `table_size` entrants plays every
+// seat permutation on every seed. Each market is scored pairwise by profit and feeds an
+// Elo rating plus a head-to-head record, which gives practice mode a difficulty ladder.
+
+export interface TournamentEntrant {
+  id: string;                          // unique label, e.g. 'undercutter' or 'markdown-15pct'
+  strategy: Strategy | StrategyName;
+}
+
+export interface TournamentOptions {
+  entrants: TournamentEntrant[];
+  table_size?: number;                 // bots per market (default: all seats in config.teams)
+  runs?: number;                       // seeds rng_seed, rng_seed + 1, ... (ignored when seeds is given)
+  seeds?: number[];
+  k_factor?: number;                   // Elo K per market, split across opponents (default 32)
+  initial_rating?: number;             // default 1500
+}
+
+export interface HeadToHead {
+  wins: number;
+  losses: number;
+  draws: number;
+}
+
+export interface TournamentStanding {
+  id: string;
+  rating: number;
+  markets: number;
+  wins: number;                        // markets finished with the highest profit
+  avg_profit: number;
+}
+
+export interface TournamentResult {
+  seeds: number[];
+  markets: number;
+  standings: TournamentStanding[];     // sorted by rating, best first
+  head_to_head: Record<string, Record<string, HeadToHead>>;
+}
+
+function combinations<T>(items: T[], size: number): T[][] {
+  if (size === 0) return [[]];
+  if (items.length < size) return [];
+  const [first, ...rest] = items;
+  return [
+    ...combinations(rest, size - 1).map((combo) => [first, ...combo]),
+    ...combinations(rest, size),
+  ];
+}
+
+function permutations<T>(items: T[]): T[][] {
+  if (items.length <= 1) return [items];
+  return items.flatMap((item, idx) =>
+    permutations([...items.slice(0, idx), ...items.slice(idx + 1)]).map((perm) => [item, ...perm]));
+}
+
+const expectedScore = (rating: number, opponent: number) => 1 / (1 + 10 ** ((opponent - rating) / 400));
+
+export function runTournament(config: Config, options: TournamentOptions): TournamentResult {
+  const { entrants } = options;
+  const tableSize = Math.floor(options.table_size ?? config.teams.length);
+  if (tableSize < 2) throw new Error('Tournament tables need at least 2 seats');
+  if (tableSize > config.teams.length) {
+    throw new Error(`Config has ${config.teams.length} seats but table_size is ${tableSize}`);
+  }
+  if (entrants.length < tableSize) {
+    throw new Error(`Need at least ${tableSize} entrants, got ${entrants.length}`);
+  }
+  const ids = entrants.map((entrant) => entrant.id);
+  const duplicate = ids.find((id, idx) => ids.indexOf(id) !== idx);
+  if (duplicate !== undefined) throw new Error(`Duplicate entrant id: ${duplicate}`);
+
+  const seeds = options.seeds
+    ?? Array.from({ length: Math.max(1, Math.floor(options.runs ?? 10)) }, (_, idx) => config.rng_seed + idx);
+  const kFactor = options.k_factor ?? 32;
+  const seats = config.teams.slice(0, tableSize);
+  const tableConfig: Config = { ...config, teams: seats };
+
+  const rating: Record<string, number> = {};
+  const stats: Record<string, { markets: number; wins: number; profit: number }> = {};
+  const headToHead: Record<string, Record<string, HeadToHead>> = {};
+  for (const id of ids) {
+    rating[id] = options.initial_rating ?? 1500;
+    stats[id] = { markets: 0, wins: 0, profit: 0 };
+    headToHead[id] = {};
+    for (const other of ids) {
+      if (other !== id) headToHead[id][other] = { wins: 0, losses: 0, draws: 0 };
+    }
+  }
+
+  let markets = 0;
+  for (const group of combinations(entrants, tableSize)) {
+    for (const seating of permutations(group)) {
+      const bySeat: Record<TeamId, TournamentEntrant> = {};
+      seats.forEach((seat, idx) => { bySeat[seat.id] = seating[idx]; });
+      const strategies = Object.fromEntries(seats.map((seat) => [seat.id, bySeat[seat.id].strategy]));
+
+      for (const seed of seeds) {
+        const reports = runScenario({ ...tableConfig, rng_seed: seed }, strategies);
+        const profit = new Map(reports.map((report) => [bySeat[report.teamId].id, report.profit]));
+        const best = Math.max(...profit.values());
+        markets += 1;
+
+        for (const [id, value] of profit) {
+          stats[id].markets += 1;
+          stats[id].profit += value;
+          if (value === best) stats[id].wins += 1;
+        }
+
+        // Elo updates use the ratings from before this market so seat order does not matter.
+        const before = { ...rating };
+        const perOpponentK = kFactor / (tableSize - 1);
+        for (const [id, value] of profit) {
+          for (const [other, otherValue] of profit) {
+            if (other === id) continue;
+            const score = value > otherValue ? 1 : value < otherValue ? 0 : 0.5;
+            rating[id] += perOpponentK * (score - expectedScore(before[id], before[other]));
+            const record = headToHead[id][other];
+            if (score === 1) record.wins += 1;
+            else if (score === 0) record.losses += 1;
+            else record.draws += 1;
+          }
+        }
+      }
+    }
+  }
+
+  const standings = ids
+    .map((id) => ({
+      id,
+      rating: rating[id],
+      markets: stats[id].markets,
+      wins: stats[id].wins,
+      avg_profit: stats[id].markets > 0 ? stats[id].profit / stats[id].markets : 0,
+    }))
+    .sort((a, b) => b.rating - a.rating || a.id.localeCompare(b.id));
+
+  return { seeds, markets, standings, head_to_head: headToHead };
+}
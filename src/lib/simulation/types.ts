@@ -8,6 +8,10 @@ export interface Config {
   seconds_per_tick: number;
   rng_seed: number;
   fixSeatShare?: number;
+  auction?: {
+    mechanism: AuctionMechanism;
+    reserve_price?: number;   // airline floor per fixed seat; lower bids are rejected
+  };
   airline: {
     C_total: number;
     P_airline_start: number;
@@ -15,6 +19,7 @@ export interface Config {
     P_max: number;
     gamma: number;
     kappa: number;
+    policy?: AirlinePolicy;   // defaults to the pressure rule
   };
   market: {
     D_base: number[]; // length must equal ticks_total
@@ -22,6 +27,16 @@ export interface Config {
     beta: number;
     P_ref: number;
     price_priority_boost?: number;
+    segments?: CustomerSegment[];
+    explain?: boolean;        // attach the per-team share breakdown (DayResults.explain)
+    allocation?: SaleAllocation;
+    arrivals?: ArrivalMode;   // defaults to 'batch'
+    external_competitors?: ExternalCompetitor[];  // non-player sellers that compete for customers
+    party_size_distribution?: PartySize[];        // default: every customer books one seat
+    demand_noise?: {
+      mode: DemandNoiseMode;
+      dispersion?: number;    // negative binomial only: variance = mean + mean^2 / dispersion
+    };
   };
   teams: {
     id: TeamId;
@@ -29,17 +44,163 @@ export interface Config {
     P_floor: number;
     P_ceil: number;
   }[];
+  events?: MarketEvent[];
+  tools?: ToolDefinition[];   // defaults to DEFAULT_TOOLS (see tools.ts)
+  budget?: BudgetConfig;      // cash is only enforced when set
+  scoring?: ScoringConfig;    // defaults to raw profit with rules.need_price_above_cost
+  ancillaries?: AncillaryProduct[];   // extras sold with each seat (see ancillaries.ts)
+  debug?: {
+    invariants?: boolean;     // check seat and revenue conservation after every tick (see invariants.ts)
+  };
   rules: {
     need_price_above_cost: boolean;
     push_cost_per_level: [number, number, number];
     tool_cooldown_ticks: number;
     price_jump_threshold: number;
     anti_collusion_band_pct: number;
+    release?: ReleaseTerm[];  // no terms: fixed seats cannot be handed back
+  };
+}
+
+// Allotment release: while the countdown tick is >= until_tick, released fixed seats go back to
+// the airline pool for refund_pct of their purchase price minus penalty_per_seat. When several
+// terms apply, the one with the latest deadline (highest until_tick) wins.
+export interface ReleaseTerm {
+  until_tick: number;
+  refund_pct: number;         // 0..100
+  penalty_per_seat?: number;  // flat fee per released seat (default 0)
+}
+
+// pressure: tanh rule on cumulative sales vs. forecast, scaled by gamma/kappa
+// emsr_b: EMSR-b protection levels for the fare classes over the remaining capacity and
+//         demand; the pool price is the fare of the lowest class still open
+// fare_ladder: fixed fares that step up with the share of C_total already sold (allotments included)
+// script: prices[i] is the pool price for the i-th tick (the last entry holds afterwards)
+export type AirlinePolicy =
+  | { type: 'pressure' }
+  | { type: 'emsr_b'; fare_classes: FareClass[] }
+  | { type: 'fare_ladder'; steps: { load_factor: number; price: number }[] }
+  | { type: 'script'; prices: number[] };
+
+export interface FareClass {
+  price: number;
+  share: number;              // share of remaining D_base (normalized across classes)
+  cv?: number;                // coefficient of variation of the class demand (default 0.3)
+}
+
+// Teams pay the auction upfront and every pool seat, push and tool as it happens.
+// Spending that would take cash below -credit_line is blocked (pool sales are lost, tools
+// do not activate); negative cash accrues interest each tick.
+export interface BudgetConfig {
+  starting_cash: number;
+  credit_line?: number;           // overdraft allowed before spending is blocked (default 0)
+  interest_rate?: number;         // per tick, charged on negative cash (default 0)
+  insolvency_threshold?: number;  // cash below this flags the team as insolvent (default -credit_line)
+}
+
+// Winner scoring in finalize. Each KPI is normalized across teams (min-max by default) and
+// weighted; ties on score fall through tie_breakers (raw KPI values, higher is better).
+export type ScoringKpi =
+  | 'profit'
+  | 'revenue'
+  | 'margin'                  // profit / revenue
+  | 'load_factor'
+  | 'avg_sell_price'
+  | 'cash'
+  | 'risk_adjusted_profit';   // profit - risk_aversion * std dev of per-tick cash flow
+
+export interface ScoringCriterion {
+  kpi: ScoringKpi;
+  weight: number;
+}
+
+export interface ScoringConfig {
+  criteria: ScoringCriterion[];
+  normalize?: 'min_max' | 'rank' | 'none';
+  tie_breakers?: ScoringKpi[];
+  risk_aversion?: number;     // default 1
+  eligibility?: {
+    price_above_cost?: boolean;   // defaults to rules.need_price_above_cost
+    min_load_factor?: number;
+    min_profit?: number;
+    allow_insolvent?: boolean;    // default false
   };
 }
 
+// per_customer (default): every arriving customer picks a team in turn, so results stay
+// identical to earlier versions for a seed. multinomial: per-team counts from one draw per
+// segment, settled arithmetically; statistically equivalent and much faster for large demand.
+export type SaleAllocation = 'per_customer' | 'multinomial';
+
+// batch: every customer of a tick sees the board the teams set for it, in interleaved order.
+// continuous: arrivals are timestamped inside the tick (a non-homogeneous Poisson process whose
+// intensity runs linearly from D_base of this tick to the next) and each customer sees the board
+// at that moment, so Decision.price_changes take effect between arrivals. Needs per_customer allocation.
+export type ArrivalMode = 'batch' | 'continuous';
+
+// Each arrival is a party booking `size` seats together, seated all-or-nothing from the team's
+// fixed quota and the pool. D_base still counts seats: the number of parties is expected demand
+// divided by the mean party size. Needs per_customer allocation.
+export interface PartySize {
+  size: number;               // whole seats, at least 1
+  share: number;              // share of parties (normalized across entries)
+}
+
+// Price path of a non-player competitor (e.g. an OTA). scripted: one price per tick from the
+// first, the last one holds; follow_airline: P_airline * (1 + markup_pct / 100) + markup, read
+// at the start of each tick.
+export type ExternalPricing =
+  | { type: 'fixed'; price: number }
+  | { type: 'scripted'; prices: number[] }
+  | { type: 'follow_airline'; markup?: number; markup_pct?: number };
+
+// Takes part in the logit choice like a team and absorbs the customers who pick it; it has no
+// inventory, cash or report and does not draw on the airline's pool.
+export interface ExternalCompetitor {
+  id: string;                 // must differ from every team id
+  pricing: ExternalPricing;
+  attention?: number;         // visibility multiplier in the choice (default 1)
+}
+
+// none: demand is the rounded expected value; otherwise it is drawn around it from the seeded RNG
+export type DemandNoiseMode = 'none' | 'poisson' | 'negative_binomial';
+
+export interface CustomerSegment {
+  id: string;
+  share: number;              // share of D_base (normalized across all segments)
+  alpha?: number;             // price sensitivity of demand (defaults to market.alpha)
+  beta?: number;              // price sensitivity in the logit choice (defaults to market.beta)
+  loyalty?: number;           // 0..1: pull toward teams that already sold to this segment
+  booking_curve?: number[];   // relative booking intensity per tick, rescaled to keep the share
+}
+
+// demand_multiplier: scales expected demand
+// p_ref_shift: moves the reference price by `value` €
+// capacity_change: adds (or removes) `value` seats to C_remain once, when the event fires
+// airline_price_floor / airline_price_ceiling: bounds P_airline at `value` € while active
+export type MarketEventType =
+  | 'demand_multiplier'
+  | 'p_ref_shift'
+  | 'capacity_change'
+  | 'airline_price_floor'
+  | 'airline_price_ceiling';
+
+export interface MarketEvent {
+  id?: string;
+  tick: number;               // countdown tick (as in MarketSnapshot.tick) at which the event fires
+  duration?: number;          // number of ticks the effect lasts (default 1)
+  type: MarketEventType;
+  value: number;
+  headline: string;           // news line shown to teams
+}
+
 /** -------- Phase 1: Auction -------- */
 
+// pay_as_bid: every winner pays its own bid
+// uniform_price: every winner pays the clearing price (lowest accepted bid)
+// vickrey: every winner pays the bids it displaced (second-price / VCG)
+export type AuctionMechanism = 'pay_as_bid' | 'uniform_price' | 'vickrey';
+
 export interface AuctionBid {
   teamId: TeamId;
   bid_price_per_seat: number; // maximum willingness to pay per fixed seat (€)
@@ -61,11 +222,43 @@ export interface AllocationSummary extends Allocation {
 export interface AuctionResult {
   allocations: Allocation[];
   airline_capacity_used: number;
+  mechanism: AuctionMechanism;
+  clearing_price: number;                 // lowest accepted bid per seat (0 if nothing was awarded)
+  marginal_bids: Record<TeamId, number>;  // bid on each team's last awarded seat (0 if none)
 }
 
 /** -------- Phase 2: Live-Market Ticks -------- */
 
-export type ToolChoice = 'none' | 'hedge' | 'spotlight' | 'commit';
+// 'none' or the id of a tool in Config.tools
+export type ToolChoice = string;
+
+// lock_pool_price: pool seats cost the airline price at activation while the tool is active
+// reserve_pool_seats: sets `seats` pool seats aside for the team; unused ones return when it expires
+export type ToolMechanic = 'lock_pool_price' | 'reserve_pool_seats';
+
+export interface ToolDefinition {
+  id: string;
+  label?: string;
+  description?: string;
+  cost: number;               // charged once on activation
+  duration_ticks?: number;    // ticks the tool stays active, including the activation tick (default 1)
+  cooldown_ticks?: number;    // defaults to rules.tool_cooldown_ticks
+  attention?: number;         // attention multiplier while active (default 1)
+  mechanic?: ToolMechanic;
+  seats?: number;             // reserve_pool_seats only
+}
+
+// An extra sold with a ticket (bags, seat selection, transfers). Its attach rate rises as the fare
+// sits further below P_ref, so cheap fares bring in passengers who buy extras, and falls as the
+// team prices it above list_price. Revenue is the expected take per seat sold.
+export interface AncillaryProduct {
+  id: string;
+  list_price: number;         // price when the team sets none
+  unit_cost: number;
+  attach_rate: number;        // share of passengers buying it at P_ref and list price (0..1)
+  fare_lift?: number;         // relative attach gain at a fare of 0 (default 1: twice the attach rate)
+  price_sensitivity?: number; // attach decay per 100% above list price (default 1)
+}
 
 export interface Decision {
   teamId: TeamId;
@@ -73,6 +266,47 @@ export interface Decision {
   push_level: 0 | 1 | 2;      // modifies attention multiplier
   fix_hold_pct: number;       // 0..100: share of fixed seats intentionally held back
   tool?: ToolChoice;
+  release_fixed?: number;     // fixed seats handed back to the airline this tick (see rules.release)
+  seat_orders?: SeatOrderRequest[];   // new orders for the fixed-seat secondary market
+  cancel_seat_orders?: boolean;       // withdraw the team's resting orders before new ones are posted
+  price_changes?: PriceChange[];      // market.arrivals = 'continuous' only: reprices within the tick
+  ancillary_prices?: Record<string, number>;  // by ancillary id; defaults to its list_price
+}
+
+// A reprice `at` seconds into the tick (0 < at < seconds_per_tick); floor and ceiling apply,
+// and the jump threshold relative to the board price just before it.
+export interface PriceChange {
+  at: number;
+  price: number;
+}
+
+/** -------- Secondary market for fixed seats -------- */
+
+export type SeatOrderSide = 'bid' | 'ask';
+
+export interface SeatOrderRequest {
+  side: SeatOrderSide;
+  quantity: number;
+  price: number;              // € per seat; bids are maximum, asks minimum prices
+}
+
+export interface SeatOrder extends SeatOrderRequest {
+  id: string;
+  teamId: TeamId;
+  tick: number;               // countdown tick the order was posted in
+}
+
+export interface SeatTrade {
+  tick: number;
+  buyer: TeamId;
+  seller: TeamId;
+  quantity: number;
+  price: number;              // price of the resting (earlier) order
+}
+
+export interface SeatBookDepth {
+  bids: { price: number; quantity: number }[];   // best (highest) first
+  asks: { price: number; quantity: number }[];   // best (lowest) first
 }
 
 export interface TeamState {
@@ -80,19 +314,24 @@ export interface TeamState {
   fixed_left: number;         // fixed seats remaining
   avg_fixed_cost: number;     // average fixed-seat cost (for reporting)
   price: number;              // current retail price
-  revenue: number;
-  cost: number;
+  revenue: number;            // tickets plus ancillaries
+  cost: number;               // includes ancillary unit costs
   sales_fix: number;
   sales_pool: number;
+  ancillary_revenue: number;  // part of revenue from ancillaries
+  ancillary_cost: number;     // part of cost from ancillaries
 }
 
 export interface MarketSnapshot {
   tick: number;               // counts down from ticks_total to 1
   P_airline: number;
   C_remain: number;
-  price_board: { teamId: TeamId; price: number }[];
+  price_board: { teamId: TeamId; price: number; external?: boolean }[];  // external: a non-player competitor
   demand_hint: 'low' | 'med' | 'high';
-  standings: { teamId: TeamId; profit: number }[];
+  standings: { teamId: TeamId; profit: number; cash: number; insolvent: boolean }[];
+  events: MarketEvent[];      // events that fired this tick
+  seat_book: SeatBookDepth;   // resting secondary-market orders after this tick's matching
+  seat_trades: SeatTrade[];   // secondary-market trades matched this tick
 }
 
 export interface DayResults {
@@ -102,20 +341,104 @@ export interface DayResults {
     sold_pool: number;
     revenue: number;
     cost: number;
+    ancillary_revenue: number;  // included in revenue
+    ancillary_cost: number;     // included in cost
   }[];
+  demand_expected: number;    // expected demand before noise (unrounded)
   demand_realized: number;
   demand_lost: number;
   C_remain_after: number;
+  seat_trades: SeatTrade[];   // secondary-market trades matched this tick
+  lost_demand: ({ teamId: TeamId } & LostDemand)[];
+  segments?: {                // only present when market.segments is configured
+    segmentId: string;
+    demand_expected: number;
+    demand: number;
+    sold: number;
+    lost: number;
+    sales: Record<TeamId, number>;
+  }[];
+  explain?: ShareExplanation[];  // only present when market.explain is set
+  group_losses?: {            // only present when market.party_size_distribution is configured
+    teamId: TeamId;
+    parties: number;          // parties of two or more turned away as a whole
+    seats: number;            // their seats (also counted in lost_demand)
+  }[];
+  external?: {                // only present when market.external_competitors is configured
+    id: string;
+    price: number;
+    sold: number;             // seats it absorbed this tick
+  }[];
+  arrivals?: Arrival[];       // only present when market.arrivals is 'continuous'
+}
+
+// One customer of a continuous-time tick, in arrival order.
+export interface Arrival {
+  at: number;                 // seconds into the tick
+  segmentId: string;
+  teamId: TeamId;             // team or external competitor the customer chose
+  price: number;              // its price at the arrival time
+  seats: number;              // party size
+  outcome: 'fix' | 'pool' | 'lost' | 'external';  // pool: at least one seat came from the pool
+}
+
+// Demand a team did not convert, by cause. The first four are customers who picked the
+// team but were turned away (they add up to DayResults.demand_lost); price_suppressed is
+// expected demand that never arrived because the cheapest price sat above P_ref, split by
+// expected share.
+export interface LostDemand {
+  held_back: number;          // fixed seats left but withheld via fix_hold_pct
+  no_fixed_quota: number;     // fixed seats gone and the pool refused the rest for another reason
+  pool_exhausted: number;     // fixed seats gone and no airline pool seats (or reservations) left
+  credit_limit: number;       // fixed seats gone and pool seats available but beyond the credit line
+  price_suppressed: number;
+}
+
+// Why each team got its share of this tick's demand. With segments, price_factor,
+// loyalty_factor, weight and expected_share are averaged over segments by expected demand.
+export interface ShareExplanation {
+  teamId: TeamId;
+  price: number;              // price after floor/ceiling/jump constraints
+  price_gap: number;          // (price - cheapest) / cheapest, times price_priority_boost
+  price_factor: number;       // exp(-beta * price_gap)
+  push_factor: number;
+  tool_factor: number;        // product of active tool attention multipliers
+  collusion_penalty: number;  // 1 when not flagged
+  loyalty_factor: number;     // 1 without segment loyalty
+  weight: number;             // price_factor * push * tool * collusion * loyalty
+  expected_share: number;     // weight / sum of weights
 }
 
 export interface FinalReport {
   teamId: TeamId;
   total_revenue: number;
+  ticket_revenue: number;
+  ancillary_revenue: number;  // total_revenue = ticket_revenue + ancillary_revenue
+  ancillary_cost: number;     // included in total_cost
   total_cost: number;
   profit: number;
   avg_sell_price: number;
   avg_buy_price: number;
   sold_total: number;
   load_factor: number; // sold seats divided by airline total capacity
+  released_fixed: number;    // fixed seats handed back to the airline
+  release_recovered: number; // refunds minus release penalties
+  spill: LostDemand;
+  spill_total: number;       // customers turned away (everything in spill but price_suppressed)
+  spoiled_fixed: number;     // fixed seats still unsold at departure
+  spoilage_cost: number;     // spoiled_fixed at the team's average fixed-seat cost
+  cash: number;        // closing cash position (starting_cash, or 0 without a budget, plus cash flows)
+  insolvent: boolean;  // insolvent teams cannot win
+  eligible: boolean;   // passes the scoring eligibility rules
+  score: number;
+  score_breakdown: ScoreComponent[];
   winner: boolean;
 }
+
+export interface ScoreComponent {
+  kpi: ScoringKpi;
+  value: number;              // raw KPI value
+  normalized: number;         // value after normalization across teams
+  weight: number;
+  contribution: number;       // normalized * weight
+}